@@ -2,6 +2,6 @@ import { prepareRelease } from "../../../scripts/common-release.ts";
 
 await prepareRelease({
   depsType: "dependencies",
-  processDeps: true,
+  processDeps: false,
   additionalFields: { sideEffects: false },
 });
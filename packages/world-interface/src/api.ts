@@ -1,8 +1,13 @@
 import type { JSONSchema } from "@codehz/ts-json-schema";
-import type { PlayerInfo } from "./components.ts";
+import type { PlayerInfo, TeamInfo } from "./components.ts";
+import type { Direction } from "./types.ts";
 
 export interface ScriptTickResult {
   players: Record<string, PlayerInfo>;
+  /**
+   * 队伍信息（启用 team 插件时提供），可用于渲染计分板
+   */
+  teams?: TeamInfo[];
 }
 
 export interface ScriptApi<PlayerInit> {
@@ -18,6 +23,50 @@ export interface ScriptApi<PlayerInit> {
    * 保存当前世界状态，返回序列化数据
    */
   save?(): Uint8Array;
+  /**
+   * 向世界发送一条指令，指令会排队并在下一次 tick 开始时按发送顺序生效
+   */
+  dispatch?<K extends keyof ScriptCommandMap>(
+    command: K,
+    data: ScriptCommandMap[K],
+  ): void;
+}
+
+/**
+ * 地图上的方向名称（斜向只在启用 8 方向移动的地图上有效）
+ */
+export type MapDirectionName =
+  | "up"
+  | "down"
+  | "left"
+  | "right"
+  | "up-left"
+  | "up-right"
+  | "down-left"
+  | "down-right";
+
+/**
+ * 地块定义，`MapStructure.tiles` 中的数值对应 `id`
+ *
+ * 未在调色板中定义的 0、1、2 分别保持默认的障碍、普通（代价 10）、快速（代价 7）地块
+ */
+export interface MapTileDefinition {
+  id: number;
+  /** 地块名称，例如 "water"、"mud" */
+  name?: string;
+  /** 进入该地块的移动代价（tick 数），默认 10 */
+  cost?: number;
+  /** 是否可以通行，默认 true */
+  passable?: boolean;
+  /** 允许以哪些移动方向进入该地块（例如单向传送带），未提供时不限制 */
+  entry?: MapDirectionName[];
+  /** 自定义标签，供角色的移动配置等使用 */
+  tags?: string[];
+  /**
+   * 只允许这些队伍（team 插件中的队伍索引）的角色进入，例如只有本队能通过的门。
+   * 其他角色（包括不在任何队伍中的角色）视其为障碍
+   */
+  teams?: number[];
 }
 
 export interface MapStructure {
@@ -35,8 +84,24 @@ export interface MapStructure {
     description: string;
     cells: { x: number; y: number }[];
   }[];
+  /**
+   * 是否启用 8 方向移动（允许斜向移动），默认只能上下左右移动。
+   * 斜向移动的代价为直线的 √2 倍，并且不能贴着障碍物的拐角穿过
+   */
+  diagonal?: boolean;
+  /**
+   * 地块调色板，覆盖或扩展默认的地块类型
+   */
+  palette?: MapTileDefinition[];
 }
 
+/**
+ * 寻路失败的原因
+ * - `unreachable`：目标不可通行或无法从当前位置到达
+ * - `blocked`：路线一直被其他角色或地图变化挡住，重新规划多次后仍无法前进
+ */
+export type MovementFailureReason = "unreachable" | "blocked";
+
 export interface ScriptPlatformEventMap {
   "thinking:start": {
     /** 玩家 ID */
@@ -49,6 +114,43 @@ export interface ScriptPlatformEventMap {
     playerId: string;
   };
 
+  /** 角色到达寻路目标（例如 `player:goto` 指定的格子） */
+  "movement:arrived": {
+    /** 玩家 ID */
+    playerId: string;
+    /** 目标格子 */
+    x: number;
+    y: number;
+    /** 前往区域时的区域名称 */
+    area?: string;
+  };
+  /** 角色放弃寻路目标 */
+  "movement:failed": {
+    /** 玩家 ID */
+    playerId: string;
+    /** 目标格子，前往区域且没有选出格子时不提供 */
+    x?: number;
+    y?: number;
+    reason: MovementFailureReason;
+    /** 前往区域时的区域名称 */
+    area?: string;
+  };
+
+  /** 角色进入区域（地图结构中的 areas） */
+  "area:enter": {
+    /** 玩家 ID */
+    playerId: string;
+    /** 区域名称 */
+    area: string;
+  };
+  /** 角色离开区域 */
+  "area:leave": {
+    /** 玩家 ID */
+    playerId: string;
+    /** 区域名称 */
+    area: string;
+  };
+
   /** 对话开始事件，包含对话 ID 和参与玩家列表 */
   "conversation:start": {
     /**
@@ -79,6 +181,38 @@ export interface ScriptPlatformEventMap {
   };
 }
 
+/**
+ * 宿主发送给世界的指令表，与 ScriptPlatformEventMap 方向相反
+ */
+export interface ScriptCommandMap {
+  /** 让角色寻路前往指定格子 */
+  "player:goto": {
+    /** 玩家 ID */
+    playerId: string;
+    x: number;
+    y: number;
+  };
+  /** 让角色转向，如果角色正在移动则在这一步移动结束后生效 */
+  "player:face": {
+    /** 玩家 ID */
+    playerId: string;
+    direction: Direction;
+  };
+  /** 让角色沿指定方向直线行走，遇到障碍时提前停止 */
+  "player:walk": {
+    /** 玩家 ID */
+    playerId: string;
+    direction: Direction;
+    /** 行走的格子数 */
+    distance: number;
+  };
+  /** 让角色停止寻路和直线行走（正在进行的这一步移动会走完） */
+  "player:stop": {
+    /** 玩家 ID */
+    playerId: string;
+  };
+}
+
 export interface ScriptPlatform {
   emitEvent<K extends keyof ScriptPlatformEventMap>(
     event: K,
@@ -99,6 +233,11 @@ export interface ScriptInitOptions<ExtraOptions = void> {
    * 运行脚本的平台接口
    */
   platform: ScriptPlatform;
+  /**
+   * 随机数种子（32 位整数），相同的种子和输入会产生相同的运行结果。
+   * 未提供时使用随机种子；从存档恢复时以存档中的随机数状态为准
+   */
+  seed?: number;
   /**
    * 额外的初始化选项
    */
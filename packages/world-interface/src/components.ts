@@ -10,6 +10,21 @@ export interface PlayerInfo {
   direction: Direction;
   move?: { current: number; total: number };
   status?: PlayerStatus;
+  /** 所属队伍 ID（team 插件），对应 TeamInfo.id */
+  team?: number;
+  /** 当前所在的区域名称，多个区域重叠时会同时列出 */
+  areas?: string[];
+}
+
+/**
+ * Realtime information of a team. (used for renderer only)
+ */
+export interface TeamInfo {
+  /** 队伍 ID，即队伍在 team 插件 teams 列表中的索引 */
+  id: number;
+  name: string;
+  color: string;
+  score: number;
 }
 
 export type BasePlayerStatus = "thinking" | "wondering" | "speaking" | "tip";
@@ -1,5 +1,5 @@
-import type { Direction } from "@miehoukingdom/world-runtime";
 import type { Plugin } from "../api.ts";
+import type { Direction } from "../types.ts";
 
 export type FixedProps = {
   x: number;
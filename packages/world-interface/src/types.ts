@@ -3,4 +3,9 @@ export enum Direction {
   Down = 1,
   Left = 2,
   Right = 3,
+  // 斜向，只在启用了 8 方向移动（MapStructure.diagonal）的地图上出现
+  UpLeft = 4,
+  UpRight = 5,
+  DownLeft = 6,
+  DownRight = 7,
 }
@@ -0,0 +1,100 @@
+/**
+ * GridMap 构造性能基准
+ *
+ * 用法：bun run scripts/bench-map.ts [尺寸...]
+ * 例如：bun run scripts/bench-map.ts 200 1000
+ *
+ * 对每个尺寸生成几种典型的地图（空旷、随机噪声、迷宫），测量构造 GridMap
+ * （岛屿标记、传送门缓存、区域索引）的耗时，输出多次运行的中位数。
+ * 地图使用固定种子生成，结果可以在不同提交之间直接比较。
+ */
+import { GridGeometry } from "../src/geometry.ts";
+import { GridMap } from "../src/map.ts";
+import { Random } from "../src/random.ts";
+import { TileType, type Portal } from "../src/types.ts";
+
+const RUNS = 5;
+const PORTALS = 16;
+
+interface Generated {
+  tiles: TileType[];
+  portals: Portal[];
+}
+
+const generators: Record<string, (size: number, random: Random) => Generated> =
+  {
+    open: (size) => ({
+      tiles: new Array<TileType>(size * size).fill(TileType.Normal),
+      portals: [],
+    }),
+    noise: (size, random) => {
+      // 40% 的障碍会把地图切成大量小岛屿
+      const tiles = Array.from({ length: size * size }, () =>
+        random.next() < 0.4 ? TileType.Obstacle : TileType.Normal,
+      );
+      return { tiles, portals: randomPortals(tiles, random) };
+    },
+    maze: (size, random) => {
+      // 每隔一行一列是墙，墙上随机开口，形成又长又弯的岛屿
+      const tiles = new Array<TileType>(size * size).fill(TileType.Normal);
+      for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+          if ((x % 2 === 1 || y % 2 === 1) && random.next() < 0.7) {
+            tiles[y * size + x] = TileType.Obstacle;
+          }
+        }
+      }
+      return { tiles, portals: randomPortals(tiles, random) };
+    },
+  };
+
+function randomPortals(tiles: TileType[], random: Random): Portal[] {
+  const walkable = (): number => {
+    while (true) {
+      const index = random.randomInt(0, tiles.length);
+      if (tiles[index] !== TileType.Obstacle) return index;
+    }
+  };
+  return Array.from({ length: PORTALS }, () => ({
+    from: walkable(),
+    to: walkable(),
+  }));
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)]!;
+}
+
+const sizes = process.argv.slice(2).map(Number);
+if (sizes.length === 0) sizes.push(100, 500, 1000);
+if (sizes.some((size) => !Number.isInteger(size) || size <= 0)) {
+  console.error("Usage: bun run scripts/bench-map.ts [size...]");
+  process.exit(1);
+}
+
+const rows: Record<string, string | number>[] = [];
+for (const size of sizes) {
+  const geometry = new GridGeometry(size, size);
+  for (const [name, generate] of Object.entries(generators)) {
+    const { tiles, portals } = generate(size, new Random(size));
+    const times: number[] = [];
+    let map!: GridMap;
+    for (let run = 0; run < RUNS; run++) {
+      const start = performance.now();
+      map = new GridMap(geometry, [...tiles], [...portals]);
+      times.push(performance.now() - start);
+    }
+    let islands = 0;
+    for (const island of map.islandIndex)
+      islands = Math.max(islands, island + 1);
+    rows.push({
+      map: `${name} ${size}x${size}`,
+      islands,
+      portals: portals.length,
+      "median ms": +median(times).toFixed(2),
+      "max ms": +Math.max(...times).toFixed(2),
+    });
+  }
+}
+console.table(rows);
@@ -2,5 +2,5 @@ import { prepareRelease } from "../../../scripts/common-release.ts";
 
 await prepareRelease({
   depsType: "dependencies",
-  processDeps: false,
+  processDeps: true,
 });
@@ -0,0 +1,605 @@
+import { relation, type EntityId, type World } from "@codehz/ecs";
+import { PlayerId } from "@miehoukingdom/world-interface";
+import {
+  Behavior,
+  Conversation,
+  GoalArea,
+  GoalFailed,
+  GoalPathfinding,
+  GoalReached,
+  Move,
+  PathPlan,
+  StraightWalk,
+  Timeout,
+  Timer,
+  type BehaviorStatus,
+  type Position,
+} from "./components.ts";
+import type { GridMap } from "./map.ts";
+import type {
+  ConversationOptions,
+  ConversationPass,
+} from "./passes/conversation.ts";
+import type { TaskHandle, TaskManager, TaskStartOptions } from "./task.ts";
+import type { Direction } from "./types.ts";
+
+/**
+ * goTo / goToArea 生成的 GoalPathfinding 的默认最大重试次数
+ */
+const DEFAULT_MAX_RETRIES = 20;
+
+/**
+ * 节点执行时的上下文
+ */
+export interface BehaviorContext {
+  readonly world: World;
+  readonly map: GridMap;
+  /** 执行行为树的实体 */
+  readonly entity: EntityId;
+  /** 节点之间共享的数据，随Behavior组件保存（需要可 JSON 序列化） */
+  readonly blackboard: Record<string, unknown>;
+  /**
+   * 执行子节点。子节点完成（成功或失败）时清除其运行状态，并中止仍在运行的子孙节点
+   */
+  tick(node: BehaviorNode): BehaviorStatus;
+  /**
+   * 中止正在运行的节点及其子孙节点，节点没有在运行时不做任何事
+   */
+  halt(node: BehaviorNode): void;
+  /**
+   * 节点的运行状态，节点没有在运行时为 undefined
+   */
+  memory<T>(node: BehaviorNode): T | undefined;
+  /**
+   * 保存节点的运行状态（需要可 JSON 序列化，不要原地修改已保存的值）
+   */
+  remember(node: BehaviorNode, value: unknown): void;
+}
+
+/**
+ * 行为树节点
+ *
+ * 节点本身不保存状态：同一棵树被所有实体共享，运行状态通过 `BehaviorContext.remember`
+ * 保存在实体的Behavior组件上，因此会随世界一起保存。
+ */
+export interface BehaviorNode {
+  /** 子节点，用于分配节点 ID 和中止子孙节点 */
+  readonly children?: readonly BehaviorNode[];
+  tick(ctx: BehaviorContext): BehaviorStatus;
+  /** 节点在运行中被中止时调用，用于清理已经启动的动作 */
+  halt?(ctx: BehaviorContext): void;
+}
+
+/**
+ * 节点参数：固定值，或者在节点开始执行时按上下文计算的值
+ */
+export type BehaviorParam<T> = T | ((ctx: BehaviorContext) => T);
+
+/**
+ * utility 节点的选项
+ */
+export interface UtilityOption {
+  /** 评分，大于 0 的选项才会被选中 */
+  score: (ctx: BehaviorContext) => number;
+  node: BehaviorNode;
+}
+
+function resolve<T>(param: BehaviorParam<T>, ctx: BehaviorContext): T {
+  return typeof param === "function"
+    ? (param as (ctx: BehaviorContext) => T)(ctx)
+    : param;
+}
+
+/**
+ * 行为树：为节点分配 ID（前序遍历的顺序），并为实体创建执行上下文
+ */
+export class BehaviorTree {
+  private ids = new Map<BehaviorNode, number>();
+
+  /**
+   * @throws {Error} 同一个节点对象在树中出现多次时抛出
+   */
+  constructor(readonly root: BehaviorNode) {
+    const visit = (node: BehaviorNode) => {
+      if (this.ids.has(node)) {
+        throw new Error("A behavior node cannot appear twice in a tree");
+      }
+      this.ids.set(node, this.ids.size);
+      node.children?.forEach(visit);
+    };
+    visit(root);
+  }
+
+  /**
+   * 为实体创建执行上下文，运行状态和黑板数据会复制一份，执行后从上下文中取回
+   */
+  context(
+    world: World,
+    map: GridMap,
+    entity: EntityId,
+    behavior: Behavior,
+  ): BehaviorContext & { readonly state: Record<number, unknown> } {
+    const ids = this.ids;
+    const state: Record<number, unknown> = { ...behavior.memory };
+    const id = (node: BehaviorNode) => {
+      const id = ids.get(node);
+      if (id === undefined) {
+        throw new Error("The behavior node does not belong to this tree");
+      }
+      return id;
+    };
+    const ctx = {
+      world,
+      map,
+      entity,
+      state,
+      blackboard: { ...behavior.blackboard },
+      tick(node: BehaviorNode): BehaviorStatus {
+        const status = node.tick(ctx);
+        if (status === "running") {
+          if (!(id(node) in state)) state[id(node)] = null;
+        } else {
+          for (const child of node.children ?? []) ctx.halt(child);
+          delete state[id(node)];
+        }
+        return status;
+      },
+      halt(node: BehaviorNode): void {
+        if (!(id(node) in state)) return;
+        node.halt?.(ctx);
+        for (const child of node.children ?? []) ctx.halt(child);
+        delete state[id(node)];
+      },
+      memory<T>(node: BehaviorNode): T | undefined {
+        return (state[id(node)] ?? undefined) as T | undefined;
+      },
+      remember(node: BehaviorNode, value: unknown): void {
+        state[id(node)] = value;
+      },
+    };
+    return ctx;
+  }
+}
+
+/**
+ * 顺序节点：依次执行子节点，全部成功时成功，任意一个失败时失败
+ */
+export function sequence(...children: BehaviorNode[]): BehaviorNode {
+  const node: BehaviorNode = {
+    children,
+    tick(ctx) {
+      for (let i = ctx.memory<number>(node) ?? 0; i < children.length; i++) {
+        const status = ctx.tick(children[i]!);
+        if (status === "failure") return "failure";
+        if (status === "running") {
+          ctx.remember(node, i);
+          return "running";
+        }
+      }
+      return "success";
+    },
+  };
+  return node;
+}
+
+/**
+ * 选择节点：依次尝试子节点，任意一个成功时成功，全部失败时失败
+ */
+export function selector(...children: BehaviorNode[]): BehaviorNode {
+  const node: BehaviorNode = {
+    children,
+    tick(ctx) {
+      for (let i = ctx.memory<number>(node) ?? 0; i < children.length; i++) {
+        const status = ctx.tick(children[i]!);
+        if (status === "success") return "success";
+        if (status === "running") {
+          ctx.remember(node, i);
+          return "running";
+        }
+      }
+      return "failure";
+    },
+  };
+  return node;
+}
+
+/**
+ * 并行节点：每个 tick 执行所有尚未完成的子节点
+ *
+ * @param policy
+ * - `all`：全部成功时成功，任意一个失败时失败
+ * - `one`：任意一个成功时成功，全部失败时失败
+ *
+ * 完成时仍在运行的子节点会被中止
+ */
+export function parallel(
+  policy: "all" | "one",
+  ...children: BehaviorNode[]
+): BehaviorNode {
+  const node: BehaviorNode = {
+    children,
+    tick(ctx) {
+      const results = [
+        ...(ctx.memory<(BehaviorStatus | null)[]>(node) ??
+          children.map(() => null)),
+      ];
+      children.forEach((child, i) => {
+        if (results[i] !== null) return;
+        const status = ctx.tick(child);
+        if (status !== "running") results[i] = status;
+      });
+      const successes = results.filter((s) => s === "success").length;
+      const failures = results.filter((s) => s === "failure").length;
+      if (policy === "all") {
+        if (failures > 0) return "failure";
+        if (successes === children.length) return "success";
+      } else {
+        if (successes > 0) return "success";
+        if (failures === children.length) return "failure";
+      }
+      ctx.remember(node, results);
+      return "running";
+    },
+  };
+  return node;
+}
+
+/**
+ * 效用节点：开始时按评分选择得分最高的选项并执行，直到该选项完成；
+ * 没有得分大于 0 的选项时失败
+ */
+export function utility(...options: UtilityOption[]): BehaviorNode {
+  const node: BehaviorNode = {
+    children: options.map((option) => option.node),
+    tick(ctx) {
+      let index = ctx.memory<number>(node);
+      if (index === undefined) {
+        let best = 0;
+        options.forEach((option, i) => {
+          const score = option.score(ctx);
+          if (score > best) {
+            best = score;
+            index = i;
+          }
+        });
+        if (index === undefined) return "failure";
+      }
+      const status = ctx.tick(options[index]!.node);
+      if (status === "running") ctx.remember(node, index);
+      return status;
+    },
+  };
+  return node;
+}
+
+/**
+ * 取反：成功变为失败，失败变为成功
+ */
+export function inverter(child: BehaviorNode): BehaviorNode {
+  return {
+    children: [child],
+    tick(ctx) {
+      const status = ctx.tick(child);
+      return status === "running"
+        ? "running"
+        : status === "success"
+          ? "failure"
+          : "success";
+    },
+  };
+}
+
+/**
+ * 子节点完成后总是成功
+ */
+export function succeeder(child: BehaviorNode): BehaviorNode {
+  return {
+    children: [child],
+    tick(ctx) {
+      return ctx.tick(child) === "running" ? "running" : "success";
+    },
+  };
+}
+
+/**
+ * 重复执行子节点，成功 times 次后成功，子节点失败时失败。
+ * 每个 tick 最多完成一次子节点，避免瞬时完成的子节点在同一个 tick 内无限循环
+ */
+export function repeat(child: BehaviorNode, times = Infinity): BehaviorNode {
+  const node: BehaviorNode = {
+    children: [child],
+    tick(ctx) {
+      let count = ctx.memory<number>(node) ?? 0;
+      const status = ctx.tick(child);
+      if (status === "failure") return "failure";
+      if (status === "success" && ++count >= times) return "success";
+      ctx.remember(node, count);
+      return "running";
+    },
+  };
+  return node;
+}
+
+/**
+ * 条件节点：谓词为真时成功，否则失败
+ */
+export function condition(
+  predicate: (ctx: BehaviorContext) => boolean,
+): BehaviorNode {
+  return { tick: (ctx) => (predicate(ctx) ? "success" : "failure") };
+}
+
+/**
+ * 动作节点：执行回调，回调没有返回结果时视为成功
+ */
+export function action(
+  run: (ctx: BehaviorContext) => BehaviorStatus | void,
+): BehaviorNode {
+  return { tick: (ctx) => run(ctx) ?? "success" };
+}
+
+/**
+ * 寻路前往指定格子（通过GoalPathfinding），到达时成功，放弃（GoalFailed）或目标被其他逻辑取消时失败
+ *
+ * @param target 目标格子，为 undefined 或超出地图时失败
+ */
+export function goTo(
+  target: BehaviorParam<Position | undefined>,
+  maxRetries = DEFAULT_MAX_RETRIES,
+): BehaviorNode {
+  const node: BehaviorNode = {
+    tick(ctx) {
+      const { world, entity } = ctx;
+      const started = ctx.memory<number>(node);
+      if (started === undefined) {
+        const position = resolve(target, ctx);
+        if (!position || !ctx.map.geometry.inBounds(position.x, position.y)) {
+          return "failure";
+        }
+        const targetIndex = ctx.map.geometry.toIndex(position.x, position.y);
+        clearGoals(world, entity, GoalPathfinding);
+        world.set(entity, GoalPathfinding, {
+          targetIndex,
+          retryCount: 0,
+          maxRetries,
+        });
+        ctx.remember(node, targetIndex);
+        return "running";
+      }
+      if (
+        world.has(entity, GoalReached) &&
+        world.get(entity, GoalReached).targetIndex === started
+      ) {
+        return "success";
+      }
+      if (
+        world.has(entity, GoalFailed) ||
+        !world.has(entity, GoalPathfinding)
+      ) {
+        return "failure";
+      }
+      return "running";
+    },
+    halt({ world, entity }) {
+      world.remove(entity, GoalPathfinding);
+      world.remove(entity, PathPlan);
+    },
+  };
+  return node;
+}
+
+/**
+ * 前往区域（通过GoalArea），到达时成功，放弃或目标被其他逻辑取消时失败
+ */
+export function goToArea(name: BehaviorParam<string>): BehaviorNode {
+  const node: BehaviorNode = {
+    tick(ctx) {
+      const { world, entity } = ctx;
+      const started = ctx.memory<string>(node);
+      if (started === undefined) {
+        const area = resolve(name, ctx);
+        clearGoals(world, entity, GoalArea);
+        world.set(entity, GoalArea, { name: area });
+        ctx.remember(node, area);
+        return "running";
+      }
+      if (
+        world.has(entity, GoalReached) &&
+        world.get(entity, GoalReached).area === started
+      ) {
+        return "success";
+      }
+      if (world.has(entity, GoalFailed) || !world.has(entity, GoalArea)) {
+        return "failure";
+      }
+      return "running";
+    },
+    halt({ world, entity }) {
+      world.remove(entity, GoalArea);
+      world.remove(entity, GoalPathfinding);
+      world.remove(entity, PathPlan);
+    },
+  };
+  return node;
+}
+
+/**
+ * 沿直线行走（通过StraightWalk），走完或被挡住停下后成功
+ */
+export function walk(
+  direction: BehaviorParam<Direction>,
+  distance: BehaviorParam<number>,
+): BehaviorNode {
+  const node: BehaviorNode = {
+    tick(ctx) {
+      const { world, entity } = ctx;
+      if (ctx.memory(node) === undefined) {
+        clearGoals(world, entity, StraightWalk);
+        world.set(entity, StraightWalk, {
+          direction: resolve(direction, ctx),
+          remainingDistance: resolve(distance, ctx),
+        });
+        ctx.remember(node, true);
+        return "running";
+      }
+      return world.has(entity, StraightWalk) || world.has(entity, Move)
+        ? "running"
+        : "success";
+    },
+    halt({ world, entity }) {
+      world.remove(entity, StraightWalk);
+    },
+  };
+  return node;
+}
+
+/**
+ * 等待指定的 tick 数（通过以Behavior为目标的Timer关系），计时结束后成功。
+ * 同一实体同时只能有一个 wait 在执行（不要放在 parallel 的多个分支中）
+ */
+export function wait(ticks: BehaviorParam<number>): BehaviorNode {
+  const timer = relation(Timer, Behavior);
+  const timeout = relation(Timeout, Behavior);
+  const node: BehaviorNode = {
+    tick(ctx) {
+      const { world, entity } = ctx;
+      if (ctx.memory(node) === undefined) {
+        world.remove(entity, timeout);
+        world.set(entity, timer, resolve(ticks, ctx));
+        ctx.remember(node, true);
+        return "running";
+      }
+      if (world.has(entity, timeout)) {
+        world.remove(entity, timeout);
+        return "success";
+      }
+      return world.has(entity, timer) ? "running" : "failure";
+    },
+    halt({ world, entity }) {
+      world.remove(entity, timer);
+      world.remove(entity, timeout);
+    },
+  };
+  return node;
+}
+
+/**
+ * 通过 TaskManager 执行异步任务（例如调用 LLM），任务完成时成功，超时或被停止时失败
+ *
+ * @param run 任务开始后调用，负责在完成时调用 `task.complete()`
+ */
+export function task(
+  manager: TaskManager,
+  run: (task: TaskHandle, ctx: BehaviorContext) => void,
+  options?: BehaviorParam<TaskStartOptions>,
+): BehaviorNode {
+  const node: BehaviorNode = {
+    tick(ctx) {
+      const { world, entity } = ctx;
+      if (ctx.memory(node) === undefined) {
+        world.remove(entity, manager.completedComponent);
+        run(manager.start(entity, resolve(options, ctx)), ctx);
+        ctx.remember(node, true);
+        return "running";
+      }
+      if (world.has(entity, manager.completedComponent)) {
+        world.remove(entity, manager.completedComponent);
+        return "success";
+      }
+      return world.has(entity, manager.taskComponent) ? "running" : "failure";
+    },
+    halt({ entity }) {
+      manager.stop(entity);
+    },
+  };
+  return node;
+}
+
+/**
+ * 与其他玩家发起对话（通过 ConversationPass），对话开始后又结束时成功，
+ * 无法发起或参与者没有按时就位时失败
+ *
+ * @param others 其他参与者，按发言顺序排列（实体自己第一个发言）
+ */
+export function converse(
+  conversations: ConversationPass,
+  others: BehaviorParam<EntityId[]>,
+  options?: BehaviorParam<ConversationOptions>,
+): BehaviorNode {
+  const node: BehaviorNode = {
+    tick(ctx) {
+      const { world, entity } = ctx;
+      const state = ctx.memory<{ conversation: EntityId; started: boolean }>(
+        node,
+      );
+      if (state === undefined) {
+        try {
+          const conversation = conversations.start(
+            [entity, ...resolve(others, ctx)],
+            resolve(options, ctx),
+          );
+          ctx.remember(node, { conversation, started: false });
+          return "running";
+        } catch {
+          return "failure";
+        }
+      }
+      const { conversation } = state;
+      if (world.has(conversation, Conversation)) {
+        if (!state.started && world.get(conversation, Conversation).started) {
+          ctx.remember(node, { conversation, started: true });
+        }
+        return "running";
+      }
+      // 对话实体还没有同步到世界中
+      const playerId = world.get(entity, PlayerId);
+      if (conversations.conversationOf(playerId) === conversation) {
+        return "running";
+      }
+      return state.started ? "success" : "failure";
+    },
+    halt(ctx) {
+      const state = ctx.memory<{ conversation: EntityId }>(node);
+      if (state) conversations.end(state.conversation);
+    },
+  };
+  return node;
+}
+
+/**
+ * 在实体所在的对话中发言（只有轮到该实体时才会生效），不在对话中时失败
+ */
+export function say(
+  conversations: ConversationPass,
+  content: BehaviorParam<string>,
+): BehaviorNode {
+  return {
+    tick(ctx) {
+      const { world, entity } = ctx;
+      if (!world.has(entity, PlayerId)) return "failure";
+      const playerId = world.get(entity, PlayerId);
+      const conversation = conversations.conversationOf(playerId);
+      if (conversation === undefined) return "failure";
+      conversations.say(conversation, playerId, resolve(content, ctx));
+      return "success";
+    },
+  };
+}
+
+const MOVEMENT_GOALS = [
+  PathPlan,
+  StraightWalk,
+  GoalPathfinding,
+  GoalArea,
+  GoalReached,
+  GoalFailed,
+];
+
+/**
+ * 开始新的移动目标前，清除旧的目标和结果（keep 为即将设置的目标组件）
+ */
+function clearGoals(world: World, entity: EntityId, keep: EntityId): void {
+  for (const component of MOVEMENT_GOALS) {
+    if (component !== keep) world.remove(entity, component);
+  }
+}
@@ -0,0 +1,34 @@
+import { describe, expect, test } from "bun:test";
+import { WorldClock } from "./clock.ts";
+
+describe("WorldClock", () => {
+  test("按一天的 tick 数换算日期和时间", () => {
+    const clock = new WorldClock(240);
+    expect([clock.day, clock.hour, clock.format()]).toEqual([0, 0, "00:00"]);
+    clock.advance(85);
+    expect([clock.day, clock.hour, clock.format()]).toEqual([0, 8.5, "08:30"]);
+    clock.advance(240);
+    expect([clock.ticks, clock.day, clock.format()]).toEqual([325, 1, "08:30"]);
+  });
+
+  test("从指定的时间开始，跨过午夜进入下一天", () => {
+    const clock = new WorldClock(undefined, 22.5);
+    expect(clock.format()).toBe("22:30");
+    // 默认一天 14400 个 tick，1 分钟为 10 个 tick
+    clock.advance(90 * 10);
+    expect([clock.day, clock.format()]).toEqual([1, "00:00"]);
+  });
+
+  test("恢复保存的 tick 数", () => {
+    const clock = new WorldClock(240, 6);
+    clock.restore(300);
+    expect([clock.ticks, clock.day, clock.format()]).toEqual([300, 1, "12:00"]);
+  });
+
+  test("拒绝不合法的参数", () => {
+    expect(() => new WorldClock(0)).toThrow("Invalid day length: 0");
+    expect(() => new WorldClock(1.5)).toThrow("Invalid day length: 1.5");
+    expect(() => new WorldClock(240, 24)).toThrow("Invalid start hour: 24");
+    expect(() => new WorldClock(240, NaN)).toThrow("Invalid start hour: NaN");
+  });
+});
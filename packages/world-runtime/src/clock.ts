@@ -0,0 +1,82 @@
+/**
+ * 默认一天的 tick 数（游戏内 1 分钟为 10 个 tick，大约是走一格的时间）
+ */
+const DEFAULT_DAY_LENGTH = 24 * 60 * 10;
+
+/**
+ * 世界时钟
+ *
+ * 把 tick 数换算为游戏内的日期和时间，一天的长度（tick 数）可以配置。
+ * 时钟只记录经过的 tick 数，由 ClockPass 每个 tick 推进并随世界保存。
+ */
+export class WorldClock {
+  private elapsed = 0;
+
+  /**
+   * @param dayLength 一天的 tick 数
+   * @param startHour 第 0 个 tick 对应的时间（小时，可以是小数），例如 6 表示从早上 6 点开始
+   * @throws {Error} dayLength 不是正整数或 startHour 不在 [0, 24) 范围内时抛出
+   */
+  constructor(
+    readonly dayLength = DEFAULT_DAY_LENGTH,
+    readonly startHour = 0,
+  ) {
+    if (!Number.isInteger(dayLength) || dayLength < 1) {
+      throw new Error(`Invalid day length: ${dayLength}`);
+    }
+    if (!(startHour >= 0 && startHour < 24)) {
+      throw new Error(`Invalid start hour: ${startHour}`);
+    }
+  }
+
+  /**
+   * 经过的 tick 数
+   */
+  get ticks(): number {
+    return this.elapsed;
+  }
+
+  /**
+   * 当前是第几天（从 0 开始）
+   */
+  get day(): number {
+    return Math.floor(this.offset / this.dayLength);
+  }
+
+  /**
+   * 当前时间（小时，[0, 24) 范围内的小数），例如 8.5 表示 8:30
+   */
+  get hour(): number {
+    return ((this.offset % this.dayLength) / this.dayLength) * 24;
+  }
+
+  /**
+   * 推进时钟
+   */
+  advance(ticks = 1): void {
+    this.elapsed += ticks;
+  }
+
+  /**
+   * 恢复到之前保存的 tick 数
+   */
+  restore(ticks: number): void {
+    this.elapsed = ticks;
+  }
+
+  /**
+   * 当前时间的文本形式，例如 `08:30`
+   */
+  format(): string {
+    const minutes = Math.floor(this.hour * 60);
+    const pad = (value: number) => String(value).padStart(2, "0");
+    return `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+  }
+
+  /**
+   * 从第 0 天 0 点开始经过的 tick 数
+   */
+  private get offset(): number {
+    return this.elapsed + Math.round((this.startHour / 24) * this.dayLength);
+  }
+}
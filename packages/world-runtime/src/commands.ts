@@ -0,0 +1,200 @@
+import { relation, type EntityId, type Query, type World } from "@codehz/ecs";
+import {
+  PlayerId,
+  type ScriptCommandMap,
+} from "@miehoukingdom/world-interface";
+import {
+  FaceDirection,
+  Fixed,
+  GoalArea,
+  GoalFailed,
+  GoalPathfinding,
+  GoalReached,
+  PathPlan,
+  Pending,
+  StraightWalk,
+} from "./components.ts";
+import type { GridMap } from "./map.ts";
+import { Direction } from "./types.ts";
+
+type QueuedCommand = {
+  [K in keyof ScriptCommandMap]: { command: K; data: ScriptCommandMap[K] };
+}[keyof ScriptCommandMap];
+
+/**
+ * `player:goto` 指令生成的 GoalPathfinding 的最大重试次数
+ */
+const GOTO_MAX_RETRIES = 20;
+
+/**
+ * 宿主指令队列
+ *
+ * `ScriptApi.dispatch` 收到的指令会先在这里校验并排队，
+ * 然后在下一次 tick 开始（pipeline 执行之前）时通过 `flush` 按顺序应用到世界上，
+ * 保证指令相对于 pipeline 的生效时机是确定的。
+ */
+export class CommandQueue {
+  private queue: QueuedCommand[] = [];
+  private players: Query;
+
+  /**
+   * @param world 世界实例
+   * @param map 地图，用于把坐标转换为格子索引并校验目标
+   * @param warn 可选的警告日志函数（例如指令目标玩家不存在）
+   */
+  constructor(
+    private world: World,
+    private map: GridMap,
+    private warn?: (msg: string) => void,
+  ) {
+    this.players = world.createQuery([PlayerId]);
+  }
+
+  /**
+   * 当前排队中的指令数量
+   */
+  get size(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * 校验并排队一条指令
+   *
+   * @throws {Error} 指令未知或参数不合法时抛出
+   */
+  push<K extends keyof ScriptCommandMap>(
+    command: K,
+    data: ScriptCommandMap[K],
+  ): void {
+    const queued = { command, data } as QueuedCommand;
+    this.validate(queued);
+    this.queue.push(queued);
+  }
+
+  /**
+   * 按顺序应用所有排队的指令，调用方负责随后执行 `world.sync()`
+   *
+   * @returns 应用的指令数量
+   */
+  flush(): number {
+    if (this.queue.length === 0) return 0;
+    const queue = this.queue;
+    this.queue = [];
+    const entities = new Map<string, EntityId>();
+    this.players.forEach([PlayerId], (entity, id) => {
+      entities.set(id, entity);
+    });
+    for (const queued of queue) {
+      const entity = entities.get(queued.data.playerId);
+      if (entity === undefined) {
+        this.warn?.(
+          `Command ${queued.command} ignored: player ${queued.data.playerId} not found.`,
+        );
+        continue;
+      }
+      this.apply(entity, queued);
+    }
+    return queue.length;
+  }
+
+  private validate(queued: QueuedCommand): void {
+    switch (queued.command) {
+      case "player:goto": {
+        const { x, y } = queued.data;
+        if (
+          !Number.isInteger(x) ||
+          !Number.isInteger(y) ||
+          !this.map.geometry.inBounds(x, y)
+        ) {
+          throw new Error(`player:goto target (${x}, ${y}) out of bounds`);
+        }
+        if (this.map.isObstacle(this.map.geometry.toIndex(x, y))) {
+          throw new Error(`player:goto target (${x}, ${y}) is an obstacle`);
+        }
+        break;
+      }
+      case "player:face":
+        this.assertDirection(queued.command, queued.data.direction);
+        break;
+      case "player:walk":
+        this.assertDirection(queued.command, queued.data.direction);
+        if (
+          !Number.isInteger(queued.data.distance) ||
+          queued.data.distance < 0
+        ) {
+          throw new Error(
+            `player:walk distance must be a non-negative integer, got ${queued.data.distance}`,
+          );
+        }
+        break;
+      case "player:stop":
+        break;
+      default:
+        throw new Error(
+          `Unknown command: ${(queued as { command: string }).command}`,
+        );
+    }
+  }
+
+  private apply(entity: EntityId, queued: QueuedCommand): void {
+    const world = this.world;
+    switch (queued.command) {
+      case "player:goto": {
+        if (this.isFixed(entity, queued)) return;
+        const { x, y } = queued.data;
+        world.remove(entity, PathPlan);
+        world.remove(entity, StraightWalk);
+        world.remove(entity, GoalReached);
+        world.remove(entity, GoalFailed);
+        world.remove(entity, GoalArea);
+        world.set(entity, GoalPathfinding, {
+          targetIndex: this.map.geometry.toIndex(x, y),
+          retryCount: 0,
+          maxRetries: GOTO_MAX_RETRIES,
+        });
+        break;
+      }
+      case "player:face":
+        // 通过 Pending 关系延迟到当前移动结束后再转向
+        world.set(
+          entity,
+          relation(Pending, FaceDirection),
+          queued.data.direction as number as Direction,
+        );
+        break;
+      case "player:walk":
+        if (this.isFixed(entity, queued)) return;
+        world.remove(entity, PathPlan);
+        world.remove(entity, GoalPathfinding);
+        world.remove(entity, GoalArea);
+        world.set(entity, StraightWalk, {
+          direction: queued.data.direction as number as Direction,
+          remainingDistance: queued.data.distance,
+        });
+        break;
+      case "player:stop":
+        world.remove(entity, GoalPathfinding);
+        world.remove(entity, GoalArea);
+        world.remove(entity, PathPlan);
+        world.remove(entity, StraightWalk);
+        break;
+    }
+  }
+
+  /**
+   * 斜向只在启用了 8 方向移动的地图上有效
+   */
+  private assertDirection(command: string, direction: number): void {
+    if (!this.map.directions.includes(direction)) {
+      throw new Error(`${command} has invalid direction: ${direction}`);
+    }
+  }
+
+  private isFixed(entity: EntityId, queued: QueuedCommand): boolean {
+    if (!this.world.has(entity, Fixed)) return false;
+    this.warn?.(
+      `Command ${queued.command} ignored: player ${queued.data.playerId} is fixed.`,
+    );
+    return true;
+  }
+}
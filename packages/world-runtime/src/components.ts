@@ -1,5 +1,6 @@
-import { component } from "@codehz/ecs";
-import type { Direction } from "./types.ts";
+import { component, type EntityId } from "@codehz/ecs";
+import type { DecisionAction } from "./decision.ts";
+import type { Area, Direction, Portal, TileType } from "./types.ts";
 
 export interface Position {
   x: number;
@@ -16,6 +17,29 @@ export interface GoalPathfinding {
   targetIndex: number; // 目标瓦片索引
   retryCount: number; // 已重试次数
   maxRetries: number; // 最大重试次数
+  replans?: number; // 执行路径计划受阻、放弃计划后重新寻路的次数，超过 maxRetries 时目标失败
+}
+
+// GoalFailureReason - 寻路目标失败的原因：目标不可到达，或路线一直被挡住
+export type GoalFailureReason = "unreachable" | "blocked";
+
+// GoalReached 组件接口 - 最近一次寻路目标已到达，设置新的目标前保留
+export interface GoalReached {
+  targetIndex: number; // 目标瓦片索引
+  area?: string; // 目标来自GoalArea时的区域名称
+}
+
+// GoalFailed 组件接口 - 最近一次寻路目标已放弃，设置新的目标前保留
+export interface GoalFailed {
+  targetIndex: number; // 目标瓦片索引，前往区域时没有选出格子则为 -1
+  reason: GoalFailureReason;
+  area?: string; // 目标来自GoalArea时的区域名称
+}
+
+// GoalArea 组件接口 - 前往区域：PathFindingPass 选出区域内最近的可到达、未被占据的格子作为GoalPathfinding的目标，
+// 选中的格子被其他动态碰撞体占据时重新选择；到达或失败后移除
+export interface GoalArea {
+  name: string; // 区域名称
 }
 
 // StraightWalk 组件接口
@@ -24,23 +48,164 @@ export interface StraightWalk {
   remainingDistance: number;
 }
 
+// PathStep - 路径计划中的一个动作：朝某个方向移动一格，或原地等待若干 tick（给其他实体让路）
+export type PathStep = Direction | { wait: number };
+
 // PathPlan 组件接口 - 存储当前的路径计划
 export interface PathPlan {
   targetIndex: number; // 目标瓦片索引
-  path: Direction[]; // 路径的方向序列（如用正确的方向进入传送门则会在到达后触发传送）
+  path: PathStep[]; // 路径的动作序列（如用正确的方向进入传送门则会在到达后触发传送）
   nextActionIndex: number; // 下一个动作在 path 中的索引
+  waitTicks?: number; // 当前等待动作剩余的 tick 数
+  blockedTicks?: number; // 下一步连续被其他实体挡住的 tick 数
+}
+
+// MovementProfile 组件接口 - 实体的移动能力，影响每一步的耗时、寻路代价和可以进入的地块
+export interface MovementProfile {
+  speed?: number; // 速度倍率，默认 1；2 表示每一步的耗时减半
+  terrain?: Record<string, number>; // 地形代价倍率，键为地块 id、名称或标签（按此顺序匹配）
+  passable?: number[]; // 额外可以进入的地块 id（即使地块本身不可通行）
+  forbidden?: number[]; // 不能进入的地块 id
+  team?: number; // 所属队伍，可以进入调色板中允许该队伍通行的地块（由 team 插件设置）
+}
+
+// MapState 组件接口 - 运行时对地图的修改（相对于地图结构），随世界一起保存
+export interface MapState {
+  tiles: [index: number, tile: TileType][]; // 与原始地图不同的格子
+  portals?: Portal[]; // 修改后的完整传送门列表（未修改时不提供）
+  areas?: Area[]; // 修改后的完整区域列表（未修改时不提供）
+}
+
+// Task 关系的数据 - 任务元数据，随世界一起保存，用于从存档恢复任务
+export interface TaskState {
+  elapsedTicks: number; // 任务开始后经过的 tick 数
+  timeout?: number; // 超时 tick 数
+  payload?: unknown; // 调用方自定义的数据（需要可 JSON 序列化）
+}
+
+// RandomState 组件 - 随机数生成器的可序列化状态（sfc32 的 4 个 32 位整数）
+export type RandomState = [number, number, number, number];
+
+// TeamScore 组件接口 - 挂在队伍实体上，存储队伍的累计得分
+export interface TeamScore {
+  team: number; // 队伍 ID（team 插件 teams 列表中的索引）
+  score: number; // 累计得分
+  elapsedTicks: number; // 距离上次结算得分经过的 tick 数
+}
+
+// Perception 组件接口 - 实体的感知范围及当前感知到的实体，后三项由 PerceptionPass 每个 tick 更新
+export interface Perception {
+  radius: number; // 感知半径（格子数，按欧几里得距离计算）
+  lineOfSight?: boolean; // 是否需要视线不被障碍物遮挡，默认 true；为 false 时相当于听觉
+  perceived?: EntityId[]; // 当前感知到的实体（按实体 ID 排序）
+  entered?: EntityId[]; // 本 tick 开始感知到的实体
+  left?: EntityId[]; // 本 tick 不再感知到的实体（包括已被删除的实体）
+}
+
+// BehaviorStatus - 行为树节点的执行结果
+export type BehaviorStatus = "success" | "failure" | "running";
+
+// Behavior 组件接口 - 实体执行的行为树及其运行状态，由 BehaviorPass 每个 tick 更新。
+// 更换 tree 时需要同时清除 memory（或先调用 BehaviorPass.stop 中止正在执行的动作）
+export interface Behavior {
+  tree: string; // 行为树名称（在 BehaviorPass 中注册的名称）
+  memory?: Record<number, unknown>; // 正在运行的节点的状态，键为节点 ID
+  blackboard?: Record<string, unknown>; // 节点之间共享的数据（需要可 JSON 序列化）
+  status?: BehaviorStatus; // 上一次执行的结果
+}
+
+// ConversationMessage - 对话日志中的一条消息
+export interface ConversationMessage {
+  source?: string; // 发言的玩家 ID，没有表示系统消息（如旁白）
+  content: string; // 消息内容（纯文本）
+}
+
+// Conversation 组件接口 - 挂在对话实体上，参与者通过 Participant 关系指向对话实体
+export interface Conversation {
+  id: string; // 对话 ID（conversation:* 事件中的 conversationId）
+  participants: string[]; // 参与者的玩家 ID，按发言顺序排列
+  turn: number; // 当前发言者在 participants 中的索引
+  messages: ConversationMessage[]; // 消息日志
+  range: number; // 参与者之间允许的最大距离（格子数）
+  started: boolean; // 参与者是否已经就位（已发出 conversation:start）
+  timeout: number; // 尚未开始时，还能等待参与者就位的 tick 数
+}
+
+// Decision 组件接口 - DecisionProvider 返回的、尚未执行完的动作，由 DecisionPass 按顺序执行
+export interface Decision {
+  actions: DecisionAction[]; // 剩余的动作（第一个为下一个要执行的动作）
+}
+
+// ClockState 组件接口 - 世界时钟（WorldClock）的状态，由 ClockPass 每个 tick 更新
+export interface ClockState {
+  ticks: number; // 经过的 tick 数
+}
+
+// ScheduleEntry - 日程中的一项：在 [start, end) 时间段内前往指定区域
+export interface ScheduleEntry {
+  start: number; // 开始时间（小时，可以是小数）
+  end: number; // 结束时间（小时），小于 start 时表示跨越午夜，例如 22 点到次日 6 点
+  area: string; // 区域名称
+}
+
+// Schedule 组件接口 - 角色的日程，由 SchedulePass 在进入新的时间段时设置GoalArea
+export interface Schedule {
+  entries: ScheduleEntry[]; // 日程项，时间段重叠时排在前面的优先
+  active?: number; // 当前时间段对应的日程项索引（已经设置过目标），不在任何时间段内时没有
+}
+
+// MemoryEntry - 记忆中的一条事件
+export interface MemoryEntry {
+  tick: number; // 发生时世界时钟的 tick 数
+  type: "seen" | "lost" | "heard" | "note"; // 看到角色 / 角色离开感知范围 / 听到对话消息 / 自定义记录
+  subject?: string; // 相关的玩家 ID（看到或离开的角色、消息的发言者）
+  content?: string; // 内容（对话消息或自定义记录）
+}
+
+// Memory 组件接口 - 角色感知到的事件日志，由 MemoryPass 追加，超过容量时丢弃最早的记录
+export interface Memory {
+  capacity: number; // 最多保存的记录数
+  entries?: MemoryEntry[]; // 按时间顺序排列的记录
 }
 
 export const Position = component<Position>("Position");
+// CurrentArea：实体当前所在的区域名称（按区域定义顺序，重叠的区域会同时列出），不在任何区域时没有该组件
+export const CurrentArea = component<string[]>("CurrentArea");
+// PlayerInitData：最近一次通过 setupPlayers 应用到实体上的 PlayerInit，用于检测变化
+export const PlayerInitData =
+  component<Record<string, unknown>>("PlayerInitData");
 export const FaceDirection = component<Direction>("FaceDirection");
 export const Pending = component("Pending");
 export const DynamicCollider = component("DynamicCollider");
+// Fixed 标记：实体被固定在原地，不参与寻路、移动和 AI 行为
+export const Fixed = component("Fixed");
 export const Move = component<Move>("Move");
 export const StraightWalk = component<StraightWalk>("StraightWalk");
 export const PathPlan = component<PathPlan>("PathPlan");
 export const GoalPathfinding = component<GoalPathfinding>("GoalPathfinding");
+export const GoalReached = component<GoalReached>("GoalReached");
+export const GoalFailed = component<GoalFailed>("GoalFailed");
+export const GoalArea = component<GoalArea>("GoalArea");
+export const MovementProfile = component<MovementProfile>("MovementProfile");
 export const Timer = component<number>("Timer");
 export const Timeout = component<void>("Timeout");
 
-export const Task = component("Task");
+export const RandomState = component<RandomState>("RandomState");
+export const MapState = component<MapState>("MapState");
+export const ClockState = component<ClockState>("ClockState");
+export const Team = component<number>("Team");
+export const TeamScore = component<TeamScore>("TeamScore");
+
+export const Task = component<TaskState>("Task");
 export const TaskCompleted = component("TaskCompleted");
+
+export const Perception = component<Perception>("Perception");
+export const Behavior = component<Behavior>("Behavior");
+export const Conversation = component<Conversation>("Conversation");
+// Participant：参与者实体 → 对话实体的关系，数据为参与者在发言顺序中的索引
+export const Participant = component<number>("Participant");
+// DecisionAgent 标记：由 DecisionPass 通过 DecisionProvider 决定行动的实体
+export const DecisionAgent = component("DecisionAgent");
+export const Decision = component<Decision>("Decision");
+export const Schedule = component<Schedule>("Schedule");
+export const Memory = component<Memory>("Memory");
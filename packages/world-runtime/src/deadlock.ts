@@ -0,0 +1,338 @@
+import type { EntityId, Query, World } from "@codehz/ecs";
+import {
+  DynamicCollider,
+  GoalPathfinding,
+  Move,
+  PathPlan,
+  Position,
+} from "./components.ts";
+import type { GridMap, MovementRules } from "./map.ts";
+import type { Direction } from "./types.ts";
+import { TypedMinHeap } from "./utils/typed-heap.ts";
+
+/**
+ * 绕路和退让搜索最多展开的格子数
+ */
+const SEARCH_LIMIT = 256;
+/**
+ * 沿剩余路径向前查看的最大步数（绕路的汇合点、退让时需要避开的其他实体路径）
+ */
+const LOOKAHEAD = 32;
+/**
+ * 退让的实体没有寻路目标时，为其补上的 GoalPathfinding 的最大重试次数
+ */
+const RESUME_MAX_RETRIES = 3;
+
+/**
+ * 下一步被其他实体挡住的实体
+ */
+export interface BlockedAgent {
+  /** 当前所在的格子 */
+  position: number;
+  /** 下一步要进入的格子 */
+  target: number;
+  plan: PathPlan;
+  /** 下一步动作在 plan.path 中的索引 */
+  actionIndex: number;
+  rules?: MovementRules;
+}
+
+/**
+ * 死锁处理统计信息
+ */
+export interface DeadlockStats {
+  /** 检测到的死锁（互相等待的环）数量 */
+  deadlocks: number;
+  /** 其中两个实体迎面相对、想要互换位置的数量 */
+  headOn: number;
+  /** 通过绕路解决的阻挡数量 */
+  rerouted: number;
+  /** 通过退让解决的死锁数量 */
+  backedOff: number;
+}
+
+interface Detour {
+  path: Direction[];
+  end: number;
+  cost: number;
+}
+
+function emptyStats(): DeadlockStats {
+  return { deadlocks: 0, headOn: 0, rerouted: 0, backedOff: 0 };
+}
+
+/**
+ * 在每个实体最多等待一个实体的等待图中找出所有的环
+ */
+function findCycles(waitFor: Map<EntityId, EntityId>): EntityId[][] {
+  // 1 = 在当前追踪的链上，2 = 已经处理过
+  const state = new Map<EntityId, number>();
+  const cycles: EntityId[][] = [];
+  for (const first of waitFor.keys()) {
+    if (state.has(first)) continue;
+    const chain: EntityId[] = [];
+    let node: EntityId | undefined = first;
+    while (node !== undefined && !state.has(node)) {
+      state.set(node, 1);
+      chain.push(node);
+      node = waitFor.get(node);
+    }
+    if (node !== undefined && state.get(node) === 1) {
+      cycles.push(chain.slice(chain.indexOf(node)));
+    }
+    for (const visited of chain) state.set(visited, 2);
+  }
+  return cycles;
+}
+
+/**
+ * 死锁检测器
+ *
+ * 根据下一步被挡住的实体建立等待图（实体 → 站在它下一步格子上的实体），并处理两种情况：
+ * - 挡路的实体没有移动计划（不会自己让开）：被挡住的实体绕过它，回到原路径上
+ * - 等待图中出现环（例如两个实体在单格走廊里迎面相遇）：优先让环中某个实体绕路，
+ *   无法绕路时让其中一个实体退让到其他实体接下来的路径之外，到达后再重新寻路
+ */
+export class DeadlockDetector {
+  /**
+   * 上一次 resolve 的统计信息
+   */
+  stats: DeadlockStats = emptyStats();
+  private colliders: Query;
+  private heap = new TypedMinHeap();
+
+  constructor(
+    private world: World,
+    private map: GridMap,
+  ) {
+    this.colliders = world.createQuery([DynamicCollider, Position]);
+  }
+
+  /**
+   * 检测并处理阻挡和死锁。退让的实体没有 GoalPathfinding 时会补上，以便到达后继续前往原目标
+   *
+   * @param blocked 本 tick 下一步被挡住的实体
+   * @returns 需要替换的路径计划
+   */
+  resolve(blocked: Map<EntityId, BlockedAgent>): Map<EntityId, PathPlan> {
+    this.stats = emptyStats();
+    const plans = new Map<EntityId, PathPlan>();
+    if (blocked.size === 0) return plans;
+
+    const occupied = this.occupancy();
+    const waitFor = new Map<EntityId, EntityId>();
+    for (const [entity, agent] of blocked) {
+      const blocker = occupied.get(agent.target);
+      if (blocker === undefined || blocker === entity) continue;
+      waitFor.set(entity, blocker);
+      if (
+        !blocked.has(blocker) &&
+        !this.world.has(blocker, Move) &&
+        !this.world.has(blocker, PathPlan)
+      ) {
+        const plan = this.detour(agent, occupied)?.plan;
+        if (plan) {
+          plans.set(entity, plan);
+          this.stats.rerouted++;
+        }
+      }
+    }
+
+    for (const cycle of findCycles(waitFor)) {
+      this.stats.deadlocks++;
+      if (cycle.length === 2) this.stats.headOn++;
+      this.breakCycle(cycle, blocked, occupied, plans);
+    }
+    return plans;
+  }
+
+  /**
+   * 从受阻的位置绕路回到原路径上（避开当前被占据的格子），用于放弃路径计划之前的局部重新规划
+   *
+   * @returns 绕路成功的实体的新路径计划
+   */
+  reroute(stuck: Map<EntityId, BlockedAgent>): Map<EntityId, PathPlan> {
+    const plans = new Map<EntityId, PathPlan>();
+    if (stuck.size === 0) return plans;
+    const occupied = this.occupancy();
+    for (const [entity, agent] of stuck) {
+      const plan = this.detour(agent, occupied)?.plan;
+      if (plan) plans.set(entity, plan);
+    }
+    return plans;
+  }
+
+  private breakCycle(
+    cycle: EntityId[],
+    blocked: Map<EntityId, BlockedAgent>,
+    occupied: Map<number, EntityId>,
+    plans: Map<EntityId, PathPlan>,
+  ): void {
+    let best: { entity: EntityId; plan: PathPlan; cost: number } | undefined;
+    for (const entity of cycle) {
+      const detour = this.detour(blocked.get(entity)!, occupied);
+      if (detour && (!best || detour.cost < best.cost)) {
+        best = { entity, ...detour };
+      }
+    }
+    if (best) {
+      plans.set(best.entity, best.plan);
+      this.stats.rerouted++;
+      return;
+    }
+
+    for (const entity of cycle) {
+      const agent = blocked.get(entity)!;
+      const others = cycle
+        .filter((other) => other !== entity)
+        .map((other) => blocked.get(other)!);
+      const refuge = this.backOff(agent, others, occupied);
+      if (refuge && (!best || refuge.cost < best.cost)) {
+        best = {
+          entity,
+          plan: {
+            targetIndex: refuge.end,
+            path: refuge.path,
+            nextActionIndex: 0,
+          },
+          cost: refuge.cost,
+        };
+      }
+    }
+    if (!best) return;
+    plans.set(best.entity, best.plan);
+    if (!this.world.has(best.entity, GoalPathfinding)) {
+      this.world.set(best.entity, GoalPathfinding, {
+        targetIndex: blocked.get(best.entity)!.plan.targetIndex,
+        retryCount: 0,
+        maxRetries: RESUME_MAX_RETRIES,
+      });
+    }
+    this.stats.backedOff++;
+  }
+
+  /**
+   * 绕过被占据的格子，回到原路径上下一步之后的某个格子
+   */
+  private detour(
+    agent: BlockedAgent,
+    occupied: Map<number, EntityId>,
+  ): { plan: PathPlan; cost: number } | null {
+    // 原路径上可以汇合的格子 → 汇合后继续执行的动作索引
+    const rejoin = new Map<number, number>();
+    const { path } = agent.plan;
+    const end = Math.min(path.length, agent.actionIndex + 1 + LOOKAHEAD);
+    let cell = agent.target;
+    for (let i = agent.actionIndex + 1; i < end; i++) {
+      const step = path[i]!;
+      if (typeof step === "object") continue;
+      const move = this.map.generateMove(cell, step, undefined, agent.rules);
+      if (!move) break;
+      cell = move.targetIdx;
+      if (!occupied.has(cell) && !rejoin.has(cell)) rejoin.set(cell, i + 1);
+    }
+    if (rejoin.size === 0) return null;
+    const found = this.search(agent, occupied, (index) => rejoin.has(index));
+    if (!found) return null;
+    return {
+      plan: {
+        targetIndex: agent.plan.targetIndex,
+        path: [...found.path, ...path.slice(rejoin.get(found.end))],
+        nextActionIndex: 0,
+      },
+      cost: found.cost,
+    };
+  }
+
+  /**
+   * 找到最近的、不在其他实体接下来路径上的空闲格子
+   */
+  private backOff(
+    agent: BlockedAgent,
+    others: BlockedAgent[],
+    occupied: Map<number, EntityId>,
+  ): Detour | null {
+    const avoid = new Set<number>();
+    for (const other of others) {
+      avoid.add(other.position);
+      let cell = other.position;
+      const { path } = other.plan;
+      const end = Math.min(path.length, other.actionIndex + LOOKAHEAD);
+      for (let i = other.actionIndex; i < end; i++) {
+        const step = path[i]!;
+        if (typeof step === "object") continue;
+        const move = this.map.generateMove(cell, step, undefined, other.rules);
+        if (!move) break;
+        cell = move.targetIdx;
+        avoid.add(cell);
+      }
+    }
+    return this.search(
+      agent,
+      occupied,
+      (index) => index !== agent.position && !avoid.has(index),
+    );
+  }
+
+  /**
+   * 从实体当前位置出发、避开被占据格子的有限 Dijkstra，返回到达第一个满足条件的格子的路径
+   */
+  private search(
+    agent: BlockedAgent,
+    occupied: Map<number, EntityId>,
+    isGoal: (index: number) => boolean,
+  ): Detour | null {
+    const cost = new Map<number, number>([[agent.position, 0]]);
+    const parent = new Map<number, [number, Direction]>();
+    const closed = new Set<number>();
+    const heap = this.heap;
+    heap.clear();
+    heap.push(agent.position, 0);
+    while (heap.size > 0 && closed.size < SEARCH_LIMIT) {
+      const current = heap.pop();
+      if (closed.has(current)) continue;
+      closed.add(current);
+      const g = cost.get(current)!;
+      if (current !== agent.position && isGoal(current)) {
+        const path: Direction[] = [];
+        for (let cell = current; cell !== agent.position;) {
+          const [from, direction] = parent.get(cell)!;
+          path.push(direction);
+          cell = from;
+        }
+        return { path: path.reverse(), end: current, cost: g };
+      }
+      for (const direction of this.map.directions) {
+        const move = this.map.generateMove(
+          current,
+          direction,
+          (index) => occupied.has(index),
+          agent.rules,
+        );
+        if (!move || closed.has(move.targetIdx)) continue;
+        const next = g + move.totalTicks;
+        if (next < (cost.get(move.targetIdx) ?? Infinity)) {
+          cost.set(move.targetIdx, next);
+          parent.set(move.targetIdx, [current, direction]);
+          heap.push(move.targetIdx, next);
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 格子 → 占据它的实体（所在的格子和正在移动前往的格子）
+   */
+  private occupancy(): Map<number, EntityId> {
+    const occupied = new Map<number, EntityId>();
+    this.colliders.forEach(
+      [Position, { optional: Move }],
+      (entity, position, move) => {
+        occupied.set(this.map.geometry.toIndex(position.x, position.y), entity);
+        if (move) occupied.set(move.value.targetIdx, entity);
+      },
+    );
+    return occupied;
+  }
+}
@@ -0,0 +1,118 @@
+import type { ConversationMessage } from "./components.ts";
+import type { Direction } from "./types.ts";
+
+/**
+ * 观察到的其他玩家
+ */
+export interface ObservedPlayer {
+  playerId: string;
+  x: number;
+  y: number;
+  /** 与观察者的距离（欧几里得距离） */
+  distance: number;
+}
+
+/**
+ * 观察者所在的对话
+ */
+export interface ObservedConversation {
+  /** 对话 ID */
+  id: string;
+  /** 参与者的玩家 ID，按发言顺序排列 */
+  participants: string[];
+  /** 参与者是否已经就位 */
+  started: boolean;
+  /** 当前发言者的玩家 ID */
+  speaker: string;
+  /** 最近的消息（按时间顺序） */
+  messages: ConversationMessage[];
+}
+
+/**
+ * 交给 DecisionProvider 的结构化观察结果，需要可 JSON 序列化（例如直接放进 LLM 的提示词）
+ */
+export interface Observation {
+  /** 做决策的玩家 ID */
+  playerId: string;
+  position: { x: number; y: number };
+  /** 朝向 */
+  direction?: Direction;
+  /** 当前所在的区域名称（重叠的区域会同时列出） */
+  areas: string[];
+  /** 附近的其他玩家，按距离从近到远排列 */
+  nearby: ObservedPlayer[];
+  /** 所在的对话（包括尚未开始的对话） */
+  conversation?: ObservedConversation;
+}
+
+/**
+ * 决策返回的动作，按顺序执行（见 DecisionPass）
+ * - `goto`：寻路前往指定格子
+ * - `goto-area`：前往区域内最近的空闲格子
+ * - `walk`：沿指定方向直线行走
+ * - `face`：转向
+ * - `say`：在所在的对话中发言
+ * - `wait`：等待指定的 tick 数
+ */
+export type DecisionAction =
+  | { type: "goto"; x: number; y: number }
+  | { type: "goto-area"; area: string }
+  | { type: "walk"; direction: Direction; distance: number }
+  | { type: "face"; direction: Direction }
+  | { type: "say"; content: string }
+  | { type: "wait"; ticks: number };
+
+/**
+ * 决策提供者，例如调用 LLM 决定角色接下来的行动
+ */
+export interface DecisionProvider {
+  /**
+   * 根据观察结果决定接下来的动作
+   *
+   * @param signal 决策被中止（实体被删除、超时等）时触发，提供者应尽快放弃请求
+   * @returns 按顺序执行的动作，空列表表示暂时不行动
+   */
+  decide(
+    observation: Observation,
+    signal: AbortSignal,
+  ): Promise<DecisionAction[]>;
+}
+
+/**
+ * 按脚本返回决策的模拟提供者，用于离线测试
+ *
+ * 每个玩家依次取出脚本中的下一组动作，脚本用完后返回空列表（loop 为 true 时从头开始）。
+ * 结果总是在下一个 tick 之前就绪，因此同样的脚本总是得到同样的运行结果。
+ * 调用计数只保存在内存中，不会随世界保存。
+ */
+export class ScriptedDecisionProvider implements DecisionProvider {
+  /**
+   * 收到的所有观察结果（按调用顺序），便于测试断言
+   */
+  readonly observations: Observation[] = [];
+  private calls = new Map<string, number>();
+
+  /**
+   * @param script 玩家 ID → 每次决策返回的动作；也可以是根据观察结果和调用次数（从 0 开始）生成动作的函数
+   * @param loop 脚本用完后是否从头开始
+   */
+  constructor(
+    private script:
+      | Record<string, DecisionAction[][]>
+      | ((observation: Observation, call: number) => DecisionAction[]),
+    private loop = false,
+  ) {}
+
+  decide(observation: Observation): Promise<DecisionAction[]> {
+    this.observations.push(observation);
+    const { playerId } = observation;
+    const call = this.calls.get(playerId) ?? 0;
+    this.calls.set(playerId, call + 1);
+    if (typeof this.script === "function") {
+      return Promise.resolve(this.script(observation, call));
+    }
+    const steps = this.script[playerId] ?? [];
+    const index = this.loop && steps.length > 0 ? call % steps.length : call;
+    return Promise.resolve(structuredClone(steps[index] ?? []));
+  }
+}
@@ -1,5 +1,39 @@
 import { Direction } from "./types.ts";
 
+/**
+ * 上下左右四个方向
+ */
+export const CARDINAL_DIRECTIONS: readonly Direction[] = [
+  Direction.Up,
+  Direction.Down,
+  Direction.Left,
+  Direction.Right,
+];
+
+/**
+ * 包括斜向在内的八个方向
+ */
+export const ALL_DIRECTIONS: readonly Direction[] = [
+  ...CARDINAL_DIRECTIONS,
+  Direction.UpLeft,
+  Direction.UpRight,
+  Direction.DownLeft,
+  Direction.DownRight,
+];
+
+/**
+ * 按 Direction 取值索引的偏移量
+ */
+export const DIRECTION_DX: readonly number[] = [0, 0, -1, 1, -1, 1, -1, 1];
+export const DIRECTION_DY: readonly number[] = [-1, 1, 0, 0, -1, -1, 1, 1];
+
+/**
+ * 是否为斜向
+ */
+export function isDiagonal(direction: Direction): boolean {
+  return direction >= Direction.UpLeft;
+}
+
 export class GridGeometry {
   readonly width: number;
   readonly height: number;
@@ -43,8 +77,14 @@ export class GridGeometry {
   /**
    * Get the direction from one tile to an adjacent tile.
    * Returns undefined if the tiles are not adjacent.
+   *
+   * @param diagonal whether diagonally adjacent tiles count as adjacent
    */
-  getDirection(fromIndex: number, toIndex: number): Direction | undefined {
+  getDirection(
+    fromIndex: number,
+    toIndex: number,
+    diagonal = false,
+  ): Direction | undefined {
     const { x: fx, y: fy } = this.fromIndex(fromIndex);
     const { x: tx, y: ty } = this.fromIndex(toIndex);
 
@@ -55,6 +95,15 @@ export class GridGeometry {
     if (dx === 0 && dy === -1) return Direction.Up;
     if (dx === 1 && dy === 0) return Direction.Right;
     if (dx === -1 && dy === 0) return Direction.Left;
+    if (diagonal && Math.abs(dx) === 1 && Math.abs(dy) === 1) {
+      return dy < 0
+        ? dx < 0
+          ? Direction.UpLeft
+          : Direction.UpRight
+        : dx < 0
+          ? Direction.DownLeft
+          : Direction.DownRight;
+    }
 
     return undefined; // not adjacent
   }
@@ -0,0 +1,160 @@
+import { describe, expect, test } from "bun:test";
+import type {
+  MapStructure,
+  PlayerInfo,
+  ScriptInitOptions,
+  ScriptTickResult,
+} from "@miehoukingdom/world-interface";
+import {
+  assertNoSharedTiles,
+  assertPlayerReached,
+  findArrivalTick,
+  parseMapStructure,
+  runSimulation,
+  SimulationAssertionError,
+  type SimulationResult,
+} from "./harness.ts";
+
+const STRUCTURE = {
+  width: 4,
+  height: 3,
+  tiles: new Array(12).fill(1),
+  spawnPoints: [{ x: 0, y: 0 }],
+} as MapStructure;
+
+function player(x: number, y: number): PlayerInfo {
+  return { x, y, direction: 0 as PlayerInfo["direction"] };
+}
+
+/**
+ * 构造只包含 tick 结果的模拟结果，`ticks[i]` 为第 i + 1 个 tick 各角色的位置
+ */
+function resultOf(ticks: Record<string, [number, number]>[]): SimulationResult {
+  return {
+    structure: STRUCTURE,
+    ticks: ticks.map((players) => ({
+      players: Object.fromEntries(
+        Object.entries(players).map(([id, [x, y]]) => [id, player(x, y)]),
+      ),
+    })),
+    events: [],
+    api: { setupPlayers() {}, tick: () => ({ players: {} }) },
+  };
+}
+
+describe("parseMapStructure", () => {
+  test("补全可选的列表，不修改传入的对象", () => {
+    const input = structuredClone(STRUCTURE) as Partial<MapStructure>;
+    delete input.spawnPoints;
+    const structure = parseMapStructure(input);
+    expect(structure.spawnPoints).toEqual([]);
+    expect(structure.portals).toEqual([]);
+    expect(structure.areas).toEqual([]);
+    expect(structure).not.toBe(input);
+    expect(input).not.toHaveProperty("portals");
+    expect(input).not.toHaveProperty("spawnPoints");
+  });
+
+  test("解析 JSON 字符串", () => {
+    const structure = parseMapStructure(JSON.stringify(STRUCTURE));
+    expect(structure.tiles).toEqual(STRUCTURE.tiles);
+    expect(structure.spawnPoints).toEqual([{ x: 0, y: 0 }]);
+  });
+
+  test("拒绝不合法的地图", () => {
+    expect(() => parseMapStructure(null)).toThrow("must be an object");
+    expect(() => parseMapStructure({ ...STRUCTURE, width: 0 })).toThrow(
+      "Invalid map width",
+    );
+    expect(() => parseMapStructure({ ...STRUCTURE, tiles: [1, 1] })).toThrow(
+      "Map tiles must be an array of 12 numbers",
+    );
+    expect(() =>
+      parseMapStructure({ ...STRUCTURE, spawnPoints: [{ x: 4, y: 0 }] }),
+    ).toThrow("Spawn point (4, 0) is out of bounds");
+  });
+});
+
+describe("runSimulation", () => {
+  test("按顺序执行 tick 并记录结果和事件", async () => {
+    const calls: string[] = [];
+    let options: ScriptInitOptions<void> | undefined;
+    const result = await runSimulation<Record<string, never>>(
+      {
+        create(init) {
+          options = init;
+          let x = 0;
+          return {
+            setupPlayers(players) {
+              calls.push(`setup:${Object.keys(players).join(",")}`);
+              init.platform.emitEvent("thinking:end", { playerId: "alice" });
+            },
+            tick(): ScriptTickResult {
+              x++;
+              init.platform.emitEvent("thinking:start", {
+                playerId: "alice",
+                content: `${x}`,
+              });
+              return { players: { alice: player(x, 0) } };
+            },
+          };
+        },
+      },
+      {
+        structure: JSON.stringify(STRUCTURE),
+        players: { alice: {} },
+        ticks: 3,
+        beforeTick: (tick) => calls.push(`tick:${tick}`),
+      },
+    );
+    expect(options?.seed).toBe(0);
+    expect(calls).toEqual(["setup:alice", "tick:1", "tick:2", "tick:3"]);
+    expect(result.ticks.map(({ players }) => players.alice?.x)).toEqual([
+      1, 2, 3,
+    ]);
+    expect(result.events.map(({ tick, event }) => [tick, event])).toEqual([
+      [0, "thinking:end"],
+      [1, "thinking:start"],
+      [2, "thinking:start"],
+      [3, "thinking:start"],
+    ]);
+  });
+});
+
+describe("assertions", () => {
+  test("assertNoSharedTiles 报告第一个重叠的 tick", () => {
+    assertNoSharedTiles(
+      resultOf([
+        { alice: [0, 0], bob: [1, 0] },
+        { alice: [1, 0], bob: [2, 0] },
+      ]),
+    );
+    const shared = resultOf([
+      { alice: [0, 0], bob: [2, 0] },
+      { alice: [1, 0], bob: [1, 0] },
+    ]);
+    expect(() => assertNoSharedTiles(shared)).toThrow(
+      new SimulationAssertionError(
+        "Players alice and bob share tile (1, 0)",
+        2,
+      ),
+    );
+  });
+
+  test("assertPlayerReached 检查到达的 tick", () => {
+    const result = resultOf([
+      { alice: [0, 0] },
+      { alice: [1, 0] },
+      { alice: [2, 0] },
+    ]);
+    expect(findArrivalTick(result, "alice", { x: 2, y: 0 })).toBe(3);
+    expect(findArrivalTick(result, "alice", { x: 3, y: 0 })).toBeUndefined();
+    assertPlayerReached(result, "alice", { x: 2, y: 0 });
+    expect(() =>
+      assertPlayerReached(result, "alice", { x: 2, y: 0 }, 2),
+    ).toThrow("did not reach (2, 0) by tick 2 (reached at tick 3)");
+    expect(() => assertPlayerReached(result, "bob", { x: 0, y: 0 })).toThrow(
+      SimulationAssertionError,
+    );
+  });
+});
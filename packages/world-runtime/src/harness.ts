@@ -0,0 +1,280 @@
+import type {
+  MapDirectionName,
+  MapStructure,
+  ScriptApi,
+  ScriptInitOptions,
+  ScriptPlatform,
+  ScriptPlatformEventMap,
+  ScriptTickResult,
+} from "@miehoukingdom/world-interface";
+
+/**
+ * 模拟过程中记录的平台事件
+ */
+export type RecordedEvent = {
+  [K in keyof ScriptPlatformEventMap]: {
+    /**
+     * 事件发出时最近一次开始的 tick 序号（从 1 开始），
+     * 0 表示在第一个 tick 之前（例如 `create` 或 `setupPlayers` 期间）发出
+     */
+    tick: number;
+    event: K;
+    data: ScriptPlatformEventMap[K];
+  };
+}[keyof ScriptPlatformEventMap];
+
+/**
+ * 记录所有事件的 ScriptPlatform 实现，用于在没有宿主的情况下运行脚本
+ */
+export class RecordingPlatform implements ScriptPlatform {
+  readonly events: RecordedEvent[] = [];
+  /**
+   * 当前 tick 序号，由驱动方在每个 tick 开始前更新
+   */
+  tick = 0;
+
+  emitEvent<K extends keyof ScriptPlatformEventMap>(
+    event: K,
+    data: ScriptPlatformEventMap[K],
+  ): void {
+    this.events.push({
+      tick: this.tick,
+      event,
+      data: structuredClone(data),
+    } as RecordedEvent);
+  }
+}
+
+const DIRECTION_NAMES = new Set<string>([
+  "up",
+  "down",
+  "left",
+  "right",
+  "up-left",
+  "up-right",
+  "down-left",
+  "down-right",
+] satisfies MapDirectionName[]);
+
+/**
+ * 解析并校验地图结构，可以传入 JSON 字符串或已解析的对象
+ *
+ * 返回新的对象并补全可选的列表（出生点、传送门、区域），不会修改传入的对象
+ *
+ * @throws {Error} 地图结构不合法时抛出
+ */
+export function parseMapStructure(input: string | unknown): MapStructure {
+  const parsed = (
+    typeof input === "string" ? JSON.parse(input) : input
+  ) as MapStructure;
+  if (typeof parsed !== "object" || parsed === null) {
+    throw new Error("Map structure must be an object");
+  }
+  const structure: MapStructure = {
+    ...parsed,
+    spawnPoints: parsed.spawnPoints ?? [],
+    portals: parsed.portals ?? [],
+    areas: parsed.areas ?? [],
+  };
+  const { width, height, tiles } = structure;
+  if (!Number.isInteger(width) || width <= 0) {
+    throw new Error(`Invalid map width: ${width}`);
+  }
+  if (!Number.isInteger(height) || height <= 0) {
+    throw new Error(`Invalid map height: ${height}`);
+  }
+  if (!Array.isArray(tiles) || tiles.length !== width * height) {
+    throw new Error(
+      `Map tiles must be an array of ${width * height} numbers, got ${Array.isArray(tiles) ? tiles.length : typeof tiles}`,
+    );
+  }
+  const checkCell = (cell: { x: number; y: number }, what: string) => {
+    if (
+      !Number.isInteger(cell?.x) ||
+      !Number.isInteger(cell?.y) ||
+      cell.x < 0 ||
+      cell.x >= width ||
+      cell.y < 0 ||
+      cell.y >= height
+    ) {
+      throw new Error(`${what} (${cell?.x}, ${cell?.y}) is out of bounds`);
+    }
+  };
+  for (const point of structure.spawnPoints) checkCell(point, "Spawn point");
+  for (const portal of structure.portals) {
+    checkCell(portal.from, "Portal source");
+    checkCell(portal.to, "Portal target");
+  }
+  for (const area of structure.areas) {
+    for (const cell of area.cells) checkCell(cell, `Area ${area.name} cell`);
+  }
+  for (const tile of structure.palette ?? []) {
+    if (!Number.isInteger(tile?.id) || tile.id < 0) {
+      throw new Error(`Invalid tile id in palette: ${tile?.id}`);
+    }
+    const team = tile.teams?.find(
+      (team) => !Number.isInteger(team) || team < 0,
+    );
+    if (team !== undefined) {
+      throw new Error(`Tile ${tile.id} has invalid team: ${team}`);
+    }
+    const invalid = tile.entry?.find((name) => !DIRECTION_NAMES.has(name));
+    if (invalid !== undefined) {
+      throw new Error(
+        `Tile ${tile.id} has invalid entry direction: ${invalid}`,
+      );
+    }
+  }
+  return structure;
+}
+
+/**
+ * 模拟选项
+ */
+export interface SimulationOptions<PlayerInit, ExtraOptions> {
+  /** 地图结构，可以是 JSON 字符串 */
+  structure: MapStructure | string;
+  /** 初始角色列表 */
+  players?: Record<string, PlayerInit>;
+  /** 运行的 tick 数 */
+  ticks: number;
+  /** 随机数种子，默认 0，保证每次模拟结果一致 */
+  seed?: number;
+  /** 从存档开始模拟 */
+  savedData?: Uint8Array;
+  /** 额外的初始化选项 */
+  extraOptions?: ExtraOptions;
+  /**
+   * 每个 tick 开始前调用，可用于发送指令或修改角色列表
+   *
+   * @param tick 即将执行的 tick 序号（从 1 开始）
+   */
+  beforeTick?(tick: number, api: ScriptApi<PlayerInit>): void;
+}
+
+/**
+ * 模拟结果
+ */
+export interface SimulationResult<PlayerInit = unknown> {
+  structure: MapStructure;
+  /** 每个 tick 的结果，`ticks[i]` 为第 i + 1 个 tick 的结果 */
+  ticks: ScriptTickResult[];
+  /** 模拟期间发出的所有事件 */
+  events: RecordedEvent[];
+  /** 脚本实例，可用于继续操作或保存 */
+  api: ScriptApi<PlayerInit>;
+}
+
+/**
+ * 在没有宿主的情况下运行世界脚本（例如 `defineScriptEntrypoint` 返回的入口）
+ *
+ * 每两个 tick 之间会让出一次事件循环，使异步任务（例如模拟的 AI 调用）
+ * 能像在宿主中一样在 tick 之间完成。
+ */
+export async function runSimulation<PlayerInit, ExtraOptions = void>(
+  entrypoint: {
+    create(options: ScriptInitOptions<ExtraOptions>): ScriptApi<PlayerInit>;
+  },
+  options: SimulationOptions<PlayerInit, ExtraOptions>,
+): Promise<SimulationResult<PlayerInit>> {
+  const structure = parseMapStructure(options.structure);
+  const platform = new RecordingPlatform();
+  const api = entrypoint.create({
+    structure,
+    platform,
+    seed: options.seed ?? 0,
+    savedData: options.savedData,
+    extraOptions: options.extraOptions as ExtraOptions,
+  });
+  if (options.players) api.setupPlayers(options.players);
+  const ticks: ScriptTickResult[] = [];
+  for (let tick = 1; tick <= options.ticks; tick++) {
+    platform.tick = tick;
+    options.beforeTick?.(tick, api);
+    ticks.push(structuredClone(api.tick()));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+  return { structure, ticks, events: platform.events, api };
+}
+
+/**
+ * 模拟断言失败时抛出的错误
+ */
+export class SimulationAssertionError extends Error {
+  override name = "SimulationAssertionError";
+  constructor(
+    message: string,
+    /** 断言失败的 tick 序号（从 1 开始），与 tick 无关的断言为 undefined */
+    readonly tick?: number,
+  ) {
+    super(tick === undefined ? message : `Tick ${tick}: ${message}`);
+  }
+}
+
+/**
+ * 断言每个 tick 都满足条件
+ *
+ * @param check 返回错误描述表示断言失败，返回 undefined 表示通过
+ * @throws {SimulationAssertionError} 第一个不满足条件的 tick
+ */
+export function assertEveryTick(
+  result: SimulationResult,
+  check: (state: ScriptTickResult, tick: number) => string | undefined,
+): void {
+  result.ticks.forEach((state, index) => {
+    const error = check(state, index + 1);
+    if (error !== undefined) {
+      throw new SimulationAssertionError(error, index + 1);
+    }
+  });
+}
+
+/**
+ * 断言任意时刻都没有两个角色位于同一个格子
+ */
+export function assertNoSharedTiles(result: SimulationResult): void {
+  assertEveryTick(result, ({ players }) => {
+    const occupied = new Map<string, string>();
+    for (const [id, { x, y }] of Object.entries(players)) {
+      const key = `${x},${y}`;
+      const other = occupied.get(key);
+      if (other !== undefined) {
+        return `Players ${other} and ${id} share tile (${x}, ${y})`;
+      }
+      occupied.set(key, id);
+    }
+  });
+}
+
+/**
+ * 返回角色第一次到达指定格子的 tick 序号，从未到达时返回 undefined
+ */
+export function findArrivalTick(
+  result: SimulationResult,
+  playerId: string,
+  target: { x: number; y: number },
+): number | undefined {
+  const index = result.ticks.findIndex(({ players }) => {
+    const player = players[playerId];
+    return player?.x === target.x && player.y === target.y;
+  });
+  return index < 0 ? undefined : index + 1;
+}
+
+/**
+ * 断言角色在第 `byTick` 个 tick（含）之前到达指定格子
+ */
+export function assertPlayerReached(
+  result: SimulationResult,
+  playerId: string,
+  target: { x: number; y: number },
+  byTick: number = result.ticks.length,
+): void {
+  const tick = findArrivalTick(result, playerId, target);
+  if (tick === undefined || tick > byTick) {
+    throw new SimulationAssertionError(
+      `Player ${playerId} did not reach (${target.x}, ${target.y}) by tick ${byTick}` +
+        (tick === undefined ? "" : ` (reached at tick ${tick})`),
+    );
+  }
+}
@@ -1,26 +1,163 @@
+export * as behavior from "./behavior.ts";
+export { WorldClock } from "./clock.ts";
+export { CommandQueue } from "./commands.ts";
 export {
+  Behavior,
+  type BehaviorStatus,
+  ClockState,
+  Conversation,
+  type ConversationMessage,
+  CurrentArea,
+  Decision,
+  DecisionAgent,
   DynamicCollider,
   FaceDirection,
+  Fixed,
+  GoalArea,
+  GoalFailed,
+  type GoalFailureReason,
   GoalPathfinding,
+  GoalReached,
+  MapState,
+  Memory,
+  type MemoryEntry,
   Move,
+  MovementProfile,
+  Participant,
   PathPlan,
+  type PathStep,
+  Pending,
+  Perception,
+  PlayerInitData,
   Position,
+  RandomState,
+  Schedule,
+  type ScheduleEntry,
   StraightWalk,
   Task,
   TaskCompleted,
+  type TaskState,
+  Team,
+  TeamScore,
   Timeout,
   Timer,
 } from "./components.ts";
-export { GridGeometry } from "./geometry.ts";
-export { GridMap } from "./map.ts";
+export {
+  DeadlockDetector,
+  type BlockedAgent,
+  type DeadlockStats,
+} from "./deadlock.ts";
+export {
+  ScriptedDecisionProvider,
+  type DecisionAction,
+  type DecisionProvider,
+  type Observation,
+  type ObservedConversation,
+  type ObservedPlayer,
+} from "./decision.ts";
+export {
+  ALL_DIRECTIONS,
+  CARDINAL_DIRECTIONS,
+  DIRECTION_DX,
+  DIRECTION_DY,
+  GridGeometry,
+  isDiagonal,
+} from "./geometry.ts";
+export {
+  assertEveryTick,
+  assertNoSharedTiles,
+  assertPlayerReached,
+  findArrivalTick,
+  parseMapStructure,
+  RecordingPlatform,
+  runSimulation,
+  SimulationAssertionError,
+  type RecordedEvent,
+  type SimulationOptions,
+  type SimulationResult,
+} from "./harness.ts";
+export {
+  DEFAULT_TILE_PALETTE,
+  GridMap,
+  type GridMapOptions,
+  type MapChange,
+  type MovementRules,
+} from "./map.ts";
+export { AreaTrackingPass } from "./passes/area-tracking.ts";
+export { BehaviorPass } from "./passes/behavior.ts";
+export { ClockPass } from "./passes/clock.ts";
+export {
+  ConversationPass,
+  type ConversationOptions,
+} from "./passes/conversation.ts";
+export { DecisionPass, type DecisionPassOptions } from "./passes/decision.ts";
 export { DynamicColliderPass } from "./passes/dynamic-collider.ts";
+export { MapPass } from "./passes/map.ts";
+export { MemoryPass } from "./passes/memory.ts";
+export { MovementEventPass } from "./passes/movement-event.ts";
 export { MovementPass } from "./passes/movement.ts";
-export { PathFindingPass } from "./passes/path-finding.ts";
+export { PathFindingPass, type GoalOutcome } from "./passes/path-finding.ts";
 export { PendingPass } from "./passes/pending.ts";
+export { PerceptionPass } from "./passes/perception.ts";
 export { PlanExecutionPass } from "./passes/plan-execution.ts";
+export { RandomPass } from "./passes/random.ts";
+export { SchedulePass } from "./passes/schedule.ts";
 export { StraightWalkPass } from "./passes/straight-walk.ts";
+export { TeamPass, type TeamPassOptions } from "./passes/team.ts";
 export { TimerPass } from "./passes/timer.ts";
-export { TaskManager } from "./task.ts";
-export { Direction, TileType, type Area, type Portal } from "./types.ts";
+export {
+  HierarchicalPathfinder,
+  type PathfinderStats,
+  type PathResult,
+} from "./pathfinder.ts";
+export { PlayerInitRegistry, type PlayerInitPlugin } from "./player-init.ts";
+export {
+  applyFixedPlacement,
+  createFixedPlugin,
+  validateFixedPlacement,
+} from "./plugins/fixed.ts";
+export {
+  applyTeamMembership,
+  createTeamPlugin,
+  validateTeamMembership,
+} from "./plugins/team.ts";
+export { Random } from "./random.ts";
+export {
+  decodeReplay,
+  digestTickResult,
+  encodeReplay,
+  playReplay,
+  ReplayRecorder,
+  type Replay,
+  type ReplayDivergence,
+  type ReplayEvent,
+  type ReplayInput,
+  type ReplayRecorderOptions,
+  type ReplayTick,
+} from "./replay.ts";
+export { ReservationTable } from "./reservation.ts";
+export {
+  computeSaveFingerprint,
+  SaveDataError,
+  SaveFormat,
+  type SaveDataErrorReason,
+  type SaveMigration,
+} from "./save.ts";
+export { SpatialIndex } from "./spatial-index.ts";
+export {
+  TaskManager,
+  type ResumedTask,
+  type TaskHandle,
+  type TaskStartOptions,
+} from "./task.ts";
+export {
+  Direction,
+  TileType,
+  type Area,
+  type Portal,
+  type TileDefinition,
+} from "./types.ts";
 export { BitSet } from "./utils/bit-set.ts";
+export { fnv1a32 } from "./utils/hash.ts";
 export { MinHeap } from "./utils/min-heap.ts";
+export { TypedMinHeap } from "./utils/typed-heap.ts";
@@ -0,0 +1,155 @@
+import { describe, expect, test } from "bun:test";
+import { GridGeometry } from "./geometry.ts";
+import { GridMap, type MapChange } from "./map.ts";
+import { Random } from "./random.ts";
+import { Direction, TileType } from "./types.ts";
+
+/**
+ * 两张地图的岛屿划分是否相同（岛屿 ID 可以不同，但必须一一对应）
+ */
+function expectSameIslands(actual: GridMap, expected: GridMap): void {
+  const forward = new Map<number, number>();
+  const backward = new Map<number, number>();
+  for (let i = 0; i < expected.islandIndex.length; i++) {
+    const a = actual.islandIndex[i]!;
+    const e = expected.islandIndex[i]!;
+    expect(a < 0).toBe(e < 0);
+    if (e < 0) continue;
+    expect(forward.get(a) ?? e).toBe(e);
+    expect(backward.get(e) ?? a).toBe(a);
+    forward.set(a, e);
+    backward.set(e, a);
+  }
+}
+
+describe("GridMap", () => {
+  test("运行时的修改不会影响传入的地图定义", () => {
+    const geometry = new GridGeometry(3, 3);
+    const tiles = new Array(9).fill(TileType.Normal);
+    const portals = [{ from: 0, to: 8 }];
+    const areas = [{ name: "room", cells: [4] }];
+    const map = new GridMap(geometry, tiles, portals, areas);
+    map.setTile(4, TileType.Obstacle);
+    map.removePortal(portals[0]!);
+    map.setArea({ name: "room", cells: [1, 2] });
+    expect(tiles[4]).toBe(TileType.Normal);
+    expect(portals).toHaveLength(1);
+    expect(areas[0]!.cells).toEqual([4]);
+  });
+
+  test("setTile 增量维护的岛屿与重新计算的结果一致", () => {
+    const random = new Random(1);
+    const geometry = new GridGeometry(24, 24);
+    const tiles = Array.from({ length: 24 * 24 }, () =>
+      random.next() < 0.35 ? TileType.Obstacle : TileType.Normal,
+    );
+    const map = new GridMap(geometry, tiles);
+    for (let i = 0; i < 300; i++) {
+      map.setTile(
+        random.randomInt(0, tiles.length),
+        random.next() < 0.5 ? TileType.Obstacle : TileType.Normal,
+      );
+      if (i % 10 === 0) {
+        expectSameIslands(map, new GridMap(geometry, map.tiles));
+      }
+    }
+    expectSameIslands(map, new GridMap(geometry, map.tiles));
+  });
+
+  test("建墙分裂岛屿，开门合并岛屿，并通知监听器", () => {
+    const geometry = new GridGeometry(5, 3);
+    const map = new GridMap(geometry, new Array(15).fill(TileType.Normal));
+    const changes: MapChange[] = [];
+    map.onChange((change) => changes.push(change));
+    const left = geometry.toIndex(0, 1);
+    const right = geometry.toIndex(4, 1);
+    const wall = [0, 1, 2].map((y) => geometry.toIndex(2, y));
+    for (const cell of wall) map.setTile(cell, TileType.Obstacle);
+    expect(map.islandIndex[left]).not.toBe(map.islandIndex[right]);
+    map.setTile(wall[1]!, TileType.Normal);
+    expect(map.islandIndex[left]).toBe(map.islandIndex[right]!);
+    expect(changes.map((change) => change.cells)).toEqual(
+      [...wall, wall[1]!].map((cell) => [cell]),
+    );
+    expect(changes[0]).toMatchObject({
+      type: "tile",
+      previous: TileType.Normal,
+      tile: TileType.Obstacle,
+    });
+  });
+
+  test("调色板决定代价、通行性和允许进入的方向", () => {
+    const geometry = new GridGeometry(4, 1);
+    const map = new GridMap(geometry, [1, 3, 4, 5] as TileType[], [], [], {
+      palette: [
+        { id: 3, name: "mud", cost: 25, tags: ["slow"] },
+        { id: 4, name: "water", passable: false },
+        { id: 5, name: "conveyor", entryDirections: [Direction.Left] },
+      ],
+    });
+    expect(map.getCost(0)).toBe(10);
+    expect(map.getCost(1)).toBe(25);
+    expect(map.hasTileTag(1, "slow")).toBe(true);
+    expect(map.isObstacle(2)).toBe(true);
+    expect(map.getCost(2)).toBe(Infinity);
+    expect(map.canEnter(3, Direction.Left)).toBe(true);
+    expect(map.canEnter(3, Direction.Right)).toBe(false);
+    expect(map.generateMove(0, Direction.Right)?.totalTicks).toBe(25);
+    expect(map.generateMove(1, Direction.Right)).toBeNull();
+  });
+
+  test("只允许部分队伍通行的地块", () => {
+    const geometry = new GridGeometry(3, 1);
+    const map = new GridMap(geometry, [1, 9, 1] as TileType[], [], [], {
+      palette: [{ id: 9, name: "door", teams: [1] }],
+    });
+    expect(map.isObstacle(1)).toBe(true);
+    const red = map.getMovementRules({ team: 0 });
+    const blue = map.getMovementRules({ team: 1 });
+    expect(map.generateMove(0, Direction.Right, undefined, red)).toBeNull();
+    expect(
+      map.generateMove(0, Direction.Right, undefined, blue)?.targetIdx,
+    ).toBe(1);
+
+    // 没有队伍地块的地图忽略 team，与默认规则相同
+    const plain = new GridMap(geometry, [1, 1, 1]);
+    expect(plain.getMovementRules({ team: 1 })).toBeUndefined();
+  });
+
+  test("移动配置按速度和地形倍率计算代价", () => {
+    const geometry = new GridGeometry(2, 1);
+    const map = new GridMap(geometry, [1, 3] as TileType[], [], [], {
+      palette: [{ id: 3, name: "mud", cost: 20, tags: ["slow"] }],
+    });
+    const rules = map.getMovementRules({ speed: 2, terrain: { slow: 3 } });
+    expect(map.getMoveCost(0, Direction.Right, rules)).toBe(5);
+    expect(map.getMoveCost(1, Direction.Right, rules)).toBe(30);
+    expect(() => map.getMovementRules({ speed: 0 })).toThrow(
+      "Invalid movement speed",
+    );
+  });
+
+  test("传送门在进入起点时传送，删除后恢复普通移动", () => {
+    const geometry = new GridGeometry(4, 1);
+    const map = new GridMap(geometry, new Array(4).fill(TileType.Normal));
+    const portal = { from: 1, to: 3, direction: Direction.Right };
+    map.addPortal(portal);
+    expect(map.generateMove(0, Direction.Right)?.targetIdx).toBe(3);
+    expect(map.generateMove(2, Direction.Left)?.targetIdx).toBe(1);
+    expect(map.removePortal(portal)).toBe(true);
+    expect(map.generateMove(0, Direction.Right)?.targetIdx).toBe(1);
+  });
+
+  test("8 方向移动不能贴着障碍物的拐角穿过", () => {
+    const geometry = new GridGeometry(2, 2);
+    const map = new GridMap(geometry, [1, 0, 1, 1], [], [], {
+      diagonal: true,
+    });
+    expect(map.directions).toHaveLength(8);
+    expect(map.adjacentIndex(2, Direction.UpRight)).toBe(-1);
+    expect(map.adjacentIndex(0, Direction.DownRight)).toBe(-1);
+    map.setTile(1, TileType.Normal);
+    expect(map.adjacentIndex(2, Direction.UpRight)).toBe(1);
+    expect(map.getMoveCost(1, Direction.UpRight)).toBe(14);
+  });
+});
@@ -1,9 +1,104 @@
-import type { Move } from "./components.ts";
-import type { GridGeometry } from "./geometry.ts";
-import { Direction, TileType, type Area, type Portal } from "./types.ts";
+import type { Move, MovementProfile } from "./components.ts";
+import {
+  ALL_DIRECTIONS,
+  CARDINAL_DIRECTIONS,
+  DIRECTION_DX,
+  DIRECTION_DY,
+  isDiagonal,
+  type GridGeometry,
+} from "./geometry.ts";
+import {
+  Direction,
+  TileType,
+  type Area,
+  type Portal,
+  type TileDefinition,
+} from "./types.ts";
+import { TypedMinHeap } from "./utils/typed-heap.ts";
+
+/**
+ * 地图变化，`cells` 为通行性、代价或传送关系发生变化的格子
+ */
+export type MapChange = { cells: number[] } & (
+  | { type: "tile"; index: number; previous: TileType; tile: TileType }
+  | { type: "portal"; portal: Portal; added: boolean }
+  | { type: "area"; name: string; area: Area | null }
+);
+
+/**
+ * GridMap 的可选配置
+ */
+export interface GridMapOptions {
+  /**
+   * 是否启用 8 方向移动，默认只能上下左右移动。
+   *
+   * 启用后可以斜向移动到相邻格子，代价为格子代价的 √2 倍（取整）。
+   * 斜向移动要求两侧的直线相邻格子都可通行（不能贴着障碍物的拐角穿过），
+   * 因此不会连通新的区域，岛屿的划分与 4 方向相同。
+   */
+  diagonal?: boolean;
+  /**
+   * 地块调色板，按 id 覆盖或扩展 DEFAULT_TILE_PALETTE
+   */
+  palette?: TileDefinition[];
+}
+
+/**
+ * 按 MovementProfile 展开的移动规则，由 GridMap.getMovementRules 创建并缓存
+ */
+export interface MovementRules {
+  /** 移动配置的序列化结果，相同的配置共享同一份规则 */
+  readonly key: string;
+  /** 按地块 id 索引的直线移动代价（已乘以地形倍率并除以速度），不可进入时为 Infinity */
+  readonly costs: readonly number[];
+  /** 按地块 id 索引的可通行性 */
+  readonly passable: readonly boolean[];
+  /** 是否能进入某些本身不可通行的地块（此时地图的岛屿划分不再适用） */
+  readonly extendsPassability: boolean;
+}
+
+/**
+ * 默认的地块调色板，保持旧地图（只使用 0、1、2）的行为
+ */
+export const DEFAULT_TILE_PALETTE: readonly TileDefinition[] = [
+  { id: TileType.Obstacle, name: "obstacle", passable: false },
+  { id: TileType.Normal, name: "normal", cost: 10 },
+  { id: TileType.Fast, name: "fast", cost: 7 },
+];
+
+/**
+ * 调色板中未指定代价的地块的默认代价
+ */
+const DEFAULT_TILE_COST = 10;
+
+/**
+ * getNeighbors 返回相邻格子的方向顺序
+ */
+const NEIGHBOR_DIRECTIONS = [
+  Direction.Down,
+  Direction.Up,
+  Direction.Right,
+  Direction.Left,
+  Direction.DownRight,
+  Direction.DownLeft,
+  Direction.UpRight,
+  Direction.UpLeft,
+];
 
 export class GridMap {
   readonly geometry: GridGeometry;
+  /**
+   * 是否启用 8 方向移动，见 GridMapOptions.diagonal
+   */
+  readonly diagonal: boolean;
+  /**
+   * 地图上可以使用的移动方向（4 个或 8 个）
+   */
+  readonly directions: readonly Direction[];
+  /**
+   * 地块定义，下标为地块 id（未定义的 id 为 undefined）
+   */
+  readonly palette: readonly (TileDefinition | undefined)[];
   tiles: TileType[]; // 1D array for tile types
   portals: Portal[];
 
@@ -15,7 +110,7 @@ export class GridMap {
    * 访问示例：
    * const island = islandIndex[tileIdx];
    */
-  islandIndex: Int16Array; // -1 for obstacles, other numbers for island indices
+  islandIndex: Int32Array; // -1 for obstacles, other numbers for island indices
 
   /**
    * 每个岛屿的所有传送点（入口）列表，key为岛屿ID，value为所有portal.from的index数组。
@@ -50,7 +145,7 @@ export class GridMap {
   /**
    * 每个格子所属的区域索引（长度 = width * height）：
    * -1 表示该格子不属于任何区域，非负整数表示所属的 area 索引。
-   * 多个区域重叠时，以最后一个区域为准。
+   * 多个区域重叠时，以最后一个区域为准（全部区域见 areaOverlaps）。
    *
    * 访问示例：
    * const areaIdx = areaIndex[tileIdx];
@@ -58,107 +153,593 @@ export class GridMap {
    */
   areaIndex: Int16Array;
 
+  /**
+   * 同时属于多个区域的格子 → 所属的全部区域索引（按定义顺序）。
+   * 只属于一个区域的格子不在其中，直接使用 areaIndex。
+   */
+  areaOverlaps: Map<number, number[]>;
+
   /**
    * 区域名称到区域索引的快速查找映射。
    */
   areasByName: Map<string, number>;
 
+  /**
+   * 每个岛屿的格子数，下标为岛屿 ID（0 表示该 ID 当前未被使用）。
+   */
+  private islandSizes: number[];
+  /**
+   * 已释放、可以复用的岛屿 ID。
+   */
+  private freeIslands: number[] = [];
+  private listeners = new Set<(change: MapChange) => void>();
+  private visited?: Uint32Array;
+  private generation = 0;
+  // 按地块 id 预先展开的调色板，用于热点路径上的查询
+  private tileCosts: number[] = [];
+  private tileObstacles: boolean[] = [];
+  private tileEntries: number[] = [];
+  // 调色板中是否有只允许部分队伍通行的地块
+  private hasTeamTiles = false;
+  private movementRules = new Map<string, MovementRules>();
+
   constructor(
     geometry: GridGeometry,
     tiles: TileType[],
     portals: Portal[] = [],
     areas: Area[] = [],
+    options: GridMapOptions = {},
   ) {
     this.geometry = geometry;
-    this.tiles = tiles;
-    this.portals = portals;
+    this.diagonal = options.diagonal ?? false;
+    this.directions = this.diagonal ? ALL_DIRECTIONS : CARDINAL_DIRECTIONS;
+    this.palette = this.compilePalette(options.palette ?? []);
+    // 复制一份，运行时的修改（setTile、addPortal、setArea 等）不会影响调用方传入的地图定义
+    this.tiles = [...tiles];
+    this.portals = [...portals];
+
+    const { islandIndex, islandSizes } = labelIslands(geometry, (index) =>
+      this.isObstacle(index),
+    );
+    this.islandIndex = islandIndex;
+    this.islandSizes = islandSizes;
+    this.islandPortalEntries = new Map();
+    this.islandPortalExits = new Map();
+    this.portalDistances = new Map();
+    this.portalPaths = new Map();
+    this.portalsByFrom = new Map();
+    this.updatePortalCaches();
+
+    // 初始化区域索引
+    this.areas = [...areas];
+    this.areaIndex = precomputeAreaIndex(tiles.length, areas);
+    this.areaOverlaps = precomputeAreaOverlaps(tiles.length, areas);
+    this.areasByName = precomputeAreasByName(areas);
+  }
+
+  /**
+   * 监听地图变化（格子、传送门、区域），返回取消监听的函数。
+   * 监听器在地图的各项缓存更新完成之后调用。
+   */
+  onChange(listener: (change: MapChange) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * 修改格子类型（例如开门、建墙、架桥）。
+   * 岛屿 ID 会增量更新（打通时合并相邻岛屿，阻断时按需分裂），只重新计算受影响岛屿内的传送门距离。
+   *
+   * @throws {Error} 索引越界时抛出
+   */
+  setTile(index: number, tile: TileType): void {
+    this.geometry.fromIndex(index);
+    const previous = this.tiles[index]!;
+    if (previous === tile) return;
+    const wasObstacle = this.isObstacle(index);
+    const islandsBefore = this.portals.map(
+      (portal) => this.islandIndex[portal.to],
+    );
+    this.tiles[index] = tile;
+    const obstacle = this.isObstacle(index);
+    let affected: Set<number>;
+    if (wasObstacle === obstacle) {
+      // 只有代价变化
+      affected = new Set(obstacle ? [] : [this.islandIndex[index]!]);
+    } else if (obstacle) {
+      affected = this.splitIsland(index);
+    } else {
+      affected = this.mergeIslands(index);
+    }
+    const targets = new Set<number>();
+    this.portals.forEach((portal, i) => {
+      if (
+        affected.has(islandsBefore[i]!) ||
+        affected.has(this.islandIndex[portal.to]!)
+      ) {
+        targets.add(portal.to);
+      }
+    });
+    this.updatePortalCaches(targets);
+    this.emit({ type: "tile", index, previous, tile, cells: [index] });
+  }
+
+  /**
+   * 添加传送门
+   *
+   * @throws {Error} 起点或终点越界时抛出
+   */
+  addPortal(portal: Portal): void {
+    this.geometry.fromIndex(portal.from);
+    this.geometry.fromIndex(portal.to);
+    this.portals.push(portal);
+    this.updatePortalCaches();
+    this.emit({
+      type: "portal",
+      portal,
+      added: true,
+      cells: [portal.from, portal.to],
+    });
+  }
 
-    const islands = computeIslands(
-      tiles,
-      (index) => this.isObstacle(index),
-      geometry,
+  /**
+   * 移除起点、终点和方向都相同的传送门
+   *
+   * @returns 是否找到并移除了传送门
+   */
+  removePortal(portal: Portal): boolean {
+    const index = this.portals.findIndex(
+      (p) =>
+        p.from === portal.from &&
+        p.to === portal.to &&
+        p.direction === portal.direction,
     );
-    this.islandIndex = precomputeIslandIds(tiles, islands);
+    if (index < 0) return false;
+    const [removed] = this.portals.splice(index, 1);
+    this.updatePortalCaches();
+    this.emit({
+      type: "portal",
+      portal: removed!,
+      added: false,
+      cells: [removed!.from, removed!.to],
+    });
+    return true;
+  }
+
+  /**
+   * 添加区域，已存在同名区域时替换它
+   */
+  setArea(area: Area): void {
+    const index = this.areasByName.get(area.name);
+    if (index === undefined) {
+      this.areas.push(area);
+    } else {
+      this.areas[index] = area;
+    }
+    this.updateAreaCaches();
+    this.emit({ type: "area", name: area.name, area, cells: [] });
+  }
+
+  /**
+   * 移除指定名称的区域
+   *
+   * @returns 是否找到并移除了区域
+   */
+  removeArea(name: string): boolean {
+    const index = this.areasByName.get(name);
+    if (index === undefined) return false;
+    this.areas.splice(index, 1);
+    this.updateAreaCaches();
+    this.emit({ type: "area", name, area: null, cells: [] });
+    return true;
+  }
+
+  private emit(change: MapChange): void {
+    for (const listener of this.listeners) listener(change);
+  }
+
+  private updateAreaCaches(): void {
+    this.areaIndex = precomputeAreaIndex(this.tiles.length, this.areas);
+    this.areaOverlaps = precomputeAreaOverlaps(this.tiles.length, this.areas);
+    this.areasByName = precomputeAreasByName(this.areas);
+  }
+
+  /**
+   * 更新传送门相关的缓存
+   *
+   * @param targets 需要重新计算距离的传送门终点，未提供时全部重新计算
+   */
+  private updatePortalCaches(targets?: Set<number>): void {
     const { islandPortalEntries, islandPortalExits } = precomputeIslandPortals(
       this.islandIndex,
-      portals,
+      this.portals,
     );
     this.islandPortalEntries = islandPortalEntries;
     this.islandPortalExits = islandPortalExits;
-    this.portalDistances = computePortalDistances(
-      portals,
+    const distances = computePortalDistances(
+      this.portals,
       this.islandIndex,
-      tiles.length,
-      (start: number, goal: number) =>
-        aStar(
-          start,
-          goal,
-          this.geometry,
-          (idx) => this.isObstacle(idx),
-          (idx) => this.getCost(idx),
-          this.portals,
-        ),
+      this.geometry,
+      this.directions,
+      (idx, direction) => this.adjacentIndex(idx, direction),
+      (idx, direction) => this.getMoveCost(idx, direction),
+      targets,
     );
+    if (targets) {
+      for (const to of targets) this.portalDistances.delete(to);
+      for (const [to, distMap] of distances) {
+        this.portalDistances.set(to, distMap);
+      }
+    } else {
+      this.portalDistances = distances;
+    }
     this.portalPaths = computePortalPaths(this.portals, this.portalDistances);
     this.portalsByFrom = precomputePortalsByFrom(this.portals);
+  }
 
-    // 初始化区域索引
-    this.areas = areas;
-    this.areaIndex = precomputeAreaIndex(tiles.length, areas);
-    this.areasByName = precomputeAreasByName(areas);
+  /**
+   * 格子变为可通行后，合并与它相邻的岛屿，保留最大岛屿的 ID
+   *
+   * @returns 受影响的岛屿 ID（包括被合并掉的）
+   */
+  private mergeIslands(index: number): Set<number> {
+    const neighbors = this.walkableNeighbors(index);
+    const islands = [...new Set(neighbors.map((n) => this.islandIndex[n]!))];
+    if (islands.length === 0) {
+      const id = this.allocateIsland();
+      this.islandIndex[index] = id;
+      this.islandSizes[id] = 1;
+      return new Set([id]);
+    }
+    islands.sort(
+      (a, b) => this.islandSizes[b]! - this.islandSizes[a]! || a - b,
+    );
+    const keep = islands[0]!;
+    this.islandIndex[index] = keep;
+    this.islandSizes[keep]!++;
+    for (const island of islands.slice(1)) {
+      const start = neighbors.find((n) => this.islandIndex[n] === island)!;
+      const cells = this.collectIsland(start, island)!;
+      for (const cell of cells) this.islandIndex[cell] = keep;
+      this.islandSizes[keep]! += cells.length;
+      this.islandSizes[island] = 0;
+      this.freeIslands.push(island);
+    }
+    return new Set(islands);
   }
 
   /**
-   * Check if a tile at the given index is an obstacle.
+   * 格子变为障碍后，检查原岛屿是否被分割，为分割出的连通块分配新的岛屿 ID
+   *
+   * @returns 受影响的岛屿 ID（包括新分配的）
    */
-  isObstacle(index: number): boolean {
-    return this.tiles[index] === TileType.Obstacle;
+  private splitIsland(index: number): Set<number> {
+    const island = this.islandIndex[index]!;
+    this.islandIndex[index] = -1;
+    const affected = new Set([island]);
+    if (--this.islandSizes[island]! === 0) {
+      this.freeIslands.push(island);
+      return affected;
+    }
+    const remaining = this.walkableNeighbors(index);
+    // 从一个相邻格子出发搜索：如果找到了其余所有相邻格子，说明岛屿没有被分割；
+    // 否则搜索到的连通块成为新的岛屿，继续检查剩下的相邻格子
+    while (remaining.length > 1) {
+      const start = remaining.shift()!;
+      const cells = this.collectIsland(start, island, remaining);
+      if (!cells) break;
+      const id = this.allocateIsland();
+      for (const cell of cells) this.islandIndex[cell] = id;
+      this.islandSizes[id] = cells.length;
+      this.islandSizes[island]! -= cells.length;
+      affected.add(id);
+    }
+    return affected;
   }
 
   /**
-   * Get the movement cost for a tile at the given index.
-   * Obstacles have infinite cost, normal tiles cost 10, fast tiles cost 7.
+   * 收集与 start 连通且属于同一岛屿的所有格子
+   *
+   * @param pending 如果提供，搜索到的格子会从中移除；全部移除后提前结束并返回 null
    */
-  getCost(index: number): number {
-    const type = this.tiles[index];
-    switch (type) {
-      case TileType.Obstacle:
-        return Infinity;
-      case TileType.Normal:
-        return 10;
-      case TileType.Fast:
-        return 7;
-      default:
-        return Infinity;
+  private collectIsland(
+    start: number,
+    island: number,
+    pending?: number[],
+  ): number[] | null {
+    this.visited ??= new Uint32Array(this.tiles.length);
+    const visited = this.visited;
+    const generation = ++this.generation;
+    const { width } = this.geometry;
+    const cells = [start];
+    visited[start] = generation;
+    for (let i = 0; i < cells.length; i++) {
+      const cell = cells[i]!;
+      const x = cell % width;
+      for (const next of [
+        x > 0 ? cell - 1 : -1,
+        x < width - 1 ? cell + 1 : -1,
+        cell - width,
+        cell + width,
+      ]) {
+        if (
+          next < 0 ||
+          next >= this.tiles.length ||
+          visited[next] === generation ||
+          this.islandIndex[next] !== island
+        ) {
+          continue;
+        }
+        visited[next] = generation;
+        cells.push(next);
+        if (pending) {
+          const found = pending.indexOf(next);
+          if (found >= 0) {
+            pending.splice(found, 1);
+            if (pending.length === 0) return null;
+          }
+        }
+      }
     }
+    return cells;
   }
 
-  getNeighbors(index: number, entryDirection?: Direction): number[] {
-    const neighbors: number[] = [];
+  private walkableNeighbors(index: number): number[] {
     const { x, y } = this.geometry.fromIndex(index);
-
-    // Adjacent tiles (up, down, left, right)
-    const dirs: [number, number][] = [
+    const neighbors: number[] = [];
+    for (const [dx, dy] of [
       [0, 1],
       [0, -1],
       [1, 0],
       [-1, 0],
-    ];
-    const adjacent: number[] = [];
-    for (const [dx, dy] of dirs) {
-      const nx = x + dx;
-      const ny = y + dy;
+    ] as const) {
+      if (!this.geometry.inBounds(x + dx, y + dy)) continue;
+      const neighbor = this.geometry.toIndex(x + dx, y + dy);
+      if (!this.isObstacle(neighbor)) neighbors.push(neighbor);
+    }
+    return neighbors;
+  }
+
+  private allocateIsland(): number {
+    const id = this.freeIslands.pop() ?? this.islandSizes.length;
+    this.islandSizes[id] = 0;
+    return id;
+  }
+
+  /**
+   * 合并默认调色板和地图提供的调色板，并展开为按 id 索引的数组
+   *
+   * @throws {Error} 地块 id 或代价不合法时抛出
+   */
+  private compilePalette(
+    palette: TileDefinition[],
+  ): (TileDefinition | undefined)[] {
+    const definitions: (TileDefinition | undefined)[] = [];
+    for (const definition of [...DEFAULT_TILE_PALETTE, ...palette]) {
+      const { id, cost, teams } = definition;
+      if (!Number.isInteger(id) || id < 0) {
+        throw new Error(`Invalid tile id: ${id}`);
+      }
+      if (cost !== undefined && !(cost > 0 && Number.isFinite(cost))) {
+        throw new Error(`Tile ${id} has invalid cost: ${cost}`);
+      }
+      const team = teams?.find((team) => !Number.isInteger(team) || team < 0);
+      if (team !== undefined) {
+        throw new Error(`Tile ${id} has invalid team: ${team}`);
+      }
+      definitions[id] = definition;
+    }
+    for (let id = 0; id < definitions.length; id++) {
+      const definition = definitions[id];
+      // 只允许部分队伍通行的地块按障碍处理，再由这些队伍的移动规则放行
+      const obstacle =
+        definition?.passable === false || definition?.teams !== undefined;
+      if (definition?.teams !== undefined) this.hasTeamTiles = true;
+      this.tileObstacles[id] = obstacle;
+      // 未定义的 id 不是障碍但无法进入，与旧版本对未知地块的处理一致
+      this.tileCosts[id] =
+        definition && !obstacle
+          ? (definition.cost ?? DEFAULT_TILE_COST)
+          : Infinity;
+      this.tileEntries[id] = definition?.entryDirections
+        ? definition.entryDirections.reduce(
+            (mask, direction) => mask | (1 << direction),
+            0,
+          )
+        : 0xff;
+    }
+    return definitions;
+  }
+
+  /**
+   * Check if a tile at the given index is an obstacle.
+   */
+  isObstacle(index: number): boolean {
+    return this.tileObstacles[this.tiles[index]!] ?? false;
+  }
+
+  /**
+   * 格子对于指定的移动规则是否可以通行，未提供规则时等价于 `!isObstacle(index)`
+   */
+  isPassable(index: number, rules?: MovementRules): boolean {
+    if (!rules) return !this.isObstacle(index);
+    return rules.passable[this.tiles[index]!] ?? true;
+  }
+
+  /**
+   * 获取（并缓存）移动配置对应的移动规则，未提供配置时返回 undefined（使用地图默认规则）。
+   * 调色板中没有只允许部分队伍通行的地块时忽略 `team`，只设置了队伍的角色与默认规则相同
+   *
+   * @throws {Error} 速度或地形倍率不是正数时抛出
+   */
+  getMovementRules(profile?: MovementProfile): MovementRules | undefined {
+    if (profile?.team !== undefined && !this.hasTeamTiles) {
+      profile = { ...profile, team: undefined };
+    }
+    if (!profile || Object.values(profile).every((v) => v === undefined)) {
+      return undefined;
+    }
+    const key = JSON.stringify(profile);
+    let rules = this.movementRules.get(key);
+    if (rules) return rules;
+    const speed = profile.speed ?? 1;
+    if (!(speed > 0 && Number.isFinite(speed))) {
+      throw new Error(`Invalid movement speed: ${speed}`);
+    }
+    const terrain = profile.terrain ?? {};
+    for (const [name, multiplier] of Object.entries(terrain)) {
+      if (!(multiplier > 0 && Number.isFinite(multiplier))) {
+        throw new Error(
+          `Invalid terrain multiplier for ${name}: ${multiplier}`,
+        );
+      }
+    }
+    const extra = new Set(profile.passable);
+    const forbidden = new Set(profile.forbidden);
+    const costs: number[] = [];
+    const passable: boolean[] = [];
+    let extendsPassability = false;
+    const length = Math.max(this.palette.length, ...extra, ...forbidden) + 1;
+    for (let id = 0; id < length; id++) {
+      const definition = this.palette[id];
+      const obstacle = this.tileObstacles[id] ?? false;
+      const member =
+        profile.team !== undefined &&
+        definition?.passable !== false &&
+        (definition?.teams?.includes(profile.team) ?? false);
+      passable[id] =
+        !forbidden.has(id) && (extra.has(id) || member || !obstacle);
+      if (passable[id] && obstacle) extendsPassability = true;
+      let multiplier = 1;
+      for (const name of [
+        `${id}`,
+        definition?.name,
+        ...(definition?.tags ?? []),
+      ]) {
+        if (name !== undefined && terrain[name] !== undefined) {
+          multiplier = terrain[name];
+          break;
+        }
+      }
+      // 额外允许进入的障碍使用调色板中的代价（未指定时为默认代价）
+      const base =
+        obstacle && definition
+          ? (definition.cost ?? DEFAULT_TILE_COST)
+          : (this.tileCosts[id] ?? Infinity);
+      costs[id] = passable[id] ? (base * multiplier) / speed : Infinity;
+    }
+    rules = { key, costs, passable, extendsPassability };
+    this.movementRules.set(key, rules);
+    return rules;
+  }
+
+  /**
+   * Get the movement cost for a tile at the given index.
+   * Costs come from the tile palette (by default normal tiles cost 10 and fast tiles cost 7);
+   * obstacles and tiles missing from the palette have infinite cost.
+   */
+  getCost(index: number): number {
+    return this.tileCosts[this.tiles[index]!] ?? Infinity;
+  }
+
+  /**
+   * 获取格子的地块定义，地块 id 不在调色板中时返回 undefined
+   */
+  getTileDefinition(index: number): TileDefinition | undefined {
+    return this.palette[this.tiles[index]!];
+  }
+
+  /**
+   * 判断格子的地块是否带有指定标签
+   */
+  hasTileTag(index: number, tag: string): boolean {
+    return this.getTileDefinition(index)?.tags?.includes(tag) ?? false;
+  }
+
+  /**
+   * 是否允许以指定的移动方向进入格子（地块的 entryDirections）
+   */
+  canEnter(index: number, direction: Direction): boolean {
+    const mask = this.tileEntries[this.tiles[index]!] ?? 0xff;
+    return (mask & (1 << direction)) !== 0;
+  }
+
+  /**
+   * 沿指定方向移动一步进入的格子（不考虑传送门），越界、不可通行、地块不允许从该方向进入、
+   * 或斜向移动时穿过障碍物拐角则返回 -1。未启用 8 方向移动时斜向总是返回 -1
+   *
+   * @param rules 移动规则，未提供时使用地图默认的通行性
+   */
+  adjacentIndex(
+    index: number,
+    direction: Direction,
+    rules?: MovementRules,
+  ): number {
+    const { width, height } = this.geometry;
+    const x = index % width;
+    const y = (index - x) / width;
+    const nx = x + DIRECTION_DX[direction]!;
+    const ny = y + DIRECTION_DY[direction]!;
+    if (nx < 0 || nx >= width || ny < 0 || ny >= height) return -1;
+    const next = ny * width + nx;
+    if (!this.isPassable(next, rules) || !this.canEnter(next, direction)) {
+      return -1;
+    }
+    if (isDiagonal(direction)) {
+      if (!this.diagonal) return -1;
+      // 两侧的直线相邻格子都必须可通行
       if (
-        nx >= 0 &&
-        nx < this.geometry.width &&
-        ny >= 0 &&
-        ny < this.geometry.height
+        !this.isPassable(y * width + nx, rules) ||
+        !this.isPassable(ny * width + x, rules)
       ) {
-        const nIndex = ny * this.geometry.width + nx;
-        if (!this.isObstacle(nIndex)) {
-          adjacent.push(nIndex);
-          neighbors.push(nIndex);
-        }
+        return -1;
+      }
+    }
+    return next;
+  }
+
+  /**
+   * 沿指定方向进入格子的移动代价（tick 数），斜向移动为格子代价的 √2 倍（取整）
+   *
+   * @param rules 移动规则，提供时按其中的速度和地形倍率计算（取整，至少为 1）
+   */
+  getMoveCost(
+    index: number,
+    direction: Direction,
+    rules?: MovementRules,
+  ): number {
+    return this.getTileMoveCost(this.tiles[index]!, direction, rules);
+  }
+
+  /**
+   * 沿指定方向进入某种地块的移动代价（tick 数），与 getMoveCost 相同，但按地块 id 计算
+   */
+  getTileMoveCost(
+    tile: TileType,
+    direction: Direction,
+    rules?: MovementRules,
+  ): number {
+    if (!rules) {
+      const cost = this.tileCosts[tile] ?? Infinity;
+      return isDiagonal(direction) ? Math.round(cost * Math.SQRT2) : cost;
+    }
+    const cost = rules.costs[tile] ?? Infinity;
+    if (!Number.isFinite(cost)) return Infinity;
+    return Math.max(
+      1,
+      Math.round(isDiagonal(direction) ? cost * Math.SQRT2 : cost),
+    );
+  }
+
+  getNeighbors(index: number, entryDirection?: Direction): number[] {
+    const neighbors: number[] = [];
+    const adjacent: number[] = [];
+    // 未启用 8 方向移动时，adjacentIndex 对斜向总是返回 -1
+    for (const direction of NEIGHBOR_DIRECTIONS) {
+      const nIndex = this.adjacentIndex(index, direction);
+      if (nIndex >= 0) {
+        adjacent.push(nIndex);
+        neighbors.push(nIndex);
       }
     }
 
@@ -189,14 +770,51 @@ export class GridMap {
     const islandB = this.islandIndex[to];
     if (islandA === -1 || islandB === -1) return Infinity; // 障碍物
 
-    // 计算曼哈顿距离
     const { x: x1, y: y1 } = this.geometry.fromIndex(from);
     const { x: x2, y: y2 } = this.geometry.fromIndex(to);
-    return Math.abs(x1 - x2) + Math.abs(y1 - y2);
+    const dx = Math.abs(x1 - x2);
+    const dy = Math.abs(y1 - y2);
+    // 4 方向使用曼哈顿距离，8 方向使用 Octile 距离
+    return this.diagonal
+      ? dx + dy + (Math.SQRT2 - 2) * Math.min(dx, dy)
+      : dx + dy;
+  }
+
+  /**
+   * 判断两个格子之间的视线是否没有被障碍物（isObstacle）遮挡。
+   * 沿 Bresenham 直线检查经过的格子，不包括两端的格子；结果与方向无关。
+   */
+  hasLineOfSight(from: number, to: number): boolean {
+    if (from === to) return true;
+    // 总是从较小的索引出发，保证 a → b 与 b → a 经过相同的格子
+    if (from > to) [from, to] = [to, from];
+    const { width } = this.geometry;
+    let x = from % width;
+    let y = (from - x) / width;
+    const tx = to % width;
+    const ty = (to - tx) / width;
+    const dx = Math.abs(tx - x);
+    const dy = -Math.abs(ty - y);
+    const sx = x < tx ? 1 : -1;
+    const sy = y < ty ? 1 : -1;
+    let err = dx + dy;
+    while (true) {
+      const e2 = 2 * err;
+      if (e2 >= dy) {
+        err += dy;
+        x += sx;
+      }
+      if (e2 <= dx) {
+        err += dx;
+        y += sy;
+      }
+      if (x === tx && y === ty) return true;
+      if (this.isObstacle(y * width + x)) return false;
+    }
   }
 
   /**
-   * 获取指定格子所属的区域。
+   * 获取指定格子所属的区域，多个区域重叠时返回最后定义的一个。
    * @param index 格子的一维索引
    * @returns 所属的区域，如果不属于任何区域则返回 null
    */
@@ -206,6 +824,18 @@ export class GridMap {
     return this.areas[areaIdx] ?? null;
   }
 
+  /**
+   * 获取指定格子所属的全部区域（按定义顺序）。
+   * @param index 格子的一维索引
+   * @returns 所属的区域列表，不属于任何区域时为空数组
+   */
+  getAreasAt(index: number): Area[] {
+    const overlaps = this.areaOverlaps.get(index);
+    if (overlaps) return overlaps.map((areaIdx) => this.areas[areaIdx]!);
+    const area = this.getAreaAt(index);
+    return area ? [area] : [];
+  }
+
   /**
    * 根据名称获取区域。
    * @param name 区域名称
@@ -226,45 +856,27 @@ export class GridMap {
   isInArea(index: number, areaName: string): boolean {
     const areaIdx = this.areasByName.get(areaName);
     if (areaIdx === undefined) return false;
-    return this.areaIndex[index] === areaIdx;
+    return (
+      this.areaIndex[index] === areaIdx ||
+      (this.areaOverlaps.get(index)?.includes(areaIdx) ?? false)
+    );
   }
 
+  /**
+   * 生成沿指定方向移动一步的 Move，无法移动时返回 null
+   *
+   * @param checkDynamicObstacle 动态障碍检查，返回 true 表示格子被占据
+   * @param rules 实体的移动规则（见 getMovementRules），决定可通行的地块和移动耗时
+   */
   generateMove(
     fromIdx: number,
     direction: Direction,
     checkDynamicObstacle?: (idx: number) => boolean,
+    rules?: MovementRules,
   ): Move | null {
-    // Calculate new position based on direction
-    const fromPos = this.geometry.fromIndex(fromIdx);
-    let nx = fromPos.x;
-    let ny = fromPos.y;
-
-    switch (direction) {
-      case Direction.Up:
-        ny -= 1;
-        break;
-      case Direction.Down:
-        ny += 1;
-        break;
-      case Direction.Left:
-        nx -= 1;
-        break;
-      case Direction.Right:
-        nx += 1;
-        break;
-    }
-
-    // Check bounds
-    if (!this.geometry.inBounds(nx, ny)) {
-      return null;
-    }
-
-    const adjacentIdx = this.geometry.toIndex(nx, ny);
-
-    if (
-      this.isObstacle(adjacentIdx) ||
-      (checkDynamicObstacle?.(adjacentIdx) ?? false)
-    ) {
+    // Calculate new position based on direction (bounds, obstacles and corner cutting)
+    const adjacentIdx = this.adjacentIndex(fromIdx, direction, rules);
+    if (adjacentIdx < 0 || (checkDynamicObstacle?.(adjacentIdx) ?? false)) {
       return null;
     }
 
@@ -279,7 +891,7 @@ export class GridMap {
           ) {
             return null; // Invalid portal
           }
-          const cost = this.getCost(adjacentIdx);
+          const cost = this.getMoveCost(adjacentIdx, direction, rules);
           if (!Number.isFinite(cost)) {
             return null;
           }
@@ -297,7 +909,7 @@ export class GridMap {
     }
 
     // Otherwise, normal move to adjacent tile
-    const cost = this.getCost(adjacentIdx);
+    const cost = this.getMoveCost(adjacentIdx, direction, rules);
     if (!Number.isFinite(cost)) {
       return null;
     }
@@ -305,81 +917,82 @@ export class GridMap {
       totalTicks: cost,
       remainingTicks: cost,
       targetIdx: adjacentIdx,
-      targetPosition: { x: nx, y: ny },
+      targetPosition: this.geometry.fromIndex(adjacentIdx),
     };
   }
 }
 
-function computeIslands(
-  tiles: TileType[],
-  isObstacle: (index: number) => boolean,
+/**
+ * 计算每个格子所属的岛屿（四连通），使用两遍扫描的连通区域标记：
+ * 第一遍按行扫描，为格子分配临时标签并用并查集合并相邻的标签；
+ * 第二遍把临时标签压缩为连续的岛屿 ID。
+ *
+ * 岛屿 ID 按岛屿中第一个格子（行优先顺序）出现的先后从 0 开始分配。
+ * 整个过程不递归，只使用类型化数组，耗时与格子数成线性关系。
+ */
+function labelIslands(
   geometry: GridGeometry,
-): number[][] {
-  const visited = new Set<number>();
-  const islands: number[][] = [];
-
-  for (let i = 0; i < tiles.length; i++) {
-    if (!visited.has(i) && !isObstacle(i)) {
-      const island: number[] = [];
-      floodFill(
-        i,
-        visited,
-        island,
-        geometry.width,
-        geometry.height,
-        isObstacle,
-        geometry,
-      );
-      islands.push(island);
-    }
-  }
-
-  return islands;
-}
-
-function floodFill(
-  index: number,
-  visited: Set<number>,
-  island: number[],
-  width: number,
-  height: number,
   isObstacle: (index: number) => boolean,
-  geometry: GridGeometry,
-): void {
-  if (visited.has(index) || isObstacle(index)) return;
-  visited.add(index);
-  island.push(index);
-
-  const { x, y } = geometry.fromIndex(index);
-  const dirs: [number, number][] = [
-    [0, 1],
-    [0, -1],
-    [1, 0],
-    [-1, 0],
-  ];
-  for (const [dx, dy] of dirs) {
-    const nx = x + dx;
-    const ny = y + dy;
-    if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
-      const nIndex = ny * width + nx;
-      floodFill(nIndex, visited, island, width, height, isObstacle, geometry);
+): { islandIndex: Int32Array; islandSizes: number[] } {
+  const { width, height } = geometry;
+  const labels = new Int32Array(width * height).fill(-1);
+  let parent = new Int32Array(64);
+  let count = 0;
+  const find = (label: number): number => {
+    let root = label;
+    while (parent[root] !== root) root = parent[root]!;
+    // 路径压缩
+    while (parent[label] !== root) {
+      const next = parent[label]!;
+      parent[label] = root;
+      label = next;
     }
-  }
-}
+    return root;
+  };
 
-function precomputeIslandIds(
-  tiles: TileType[],
-  islands: number[][],
-): Int16Array {
-  const islandIds = new Int16Array(tiles.length).fill(-1);
-
-  islands.forEach((island, islandIdx) => {
-    for (const index of island) {
-      islandIds[index] = islandIdx;
+  for (let y = 0, index = 0; y < height; y++) {
+    for (let x = 0; x < width; x++, index++) {
+      if (isObstacle(index)) continue;
+      const left = x > 0 ? labels[index - 1]! : -1;
+      const up = y > 0 ? labels[index - width]! : -1;
+      if (left < 0 && up < 0) {
+        if (count === parent.length) {
+          const grown = new Int32Array(count * 2);
+          grown.set(parent);
+          parent = grown;
+        }
+        parent[count] = count;
+        labels[index] = count++;
+      } else if (up < 0) {
+        labels[index] = left;
+      } else {
+        labels[index] = up;
+        if (left >= 0) {
+          // 合并时让较小的标签作为根，保证根是岛屿中最早出现的标签
+          const a = find(left);
+          const b = find(up);
+          if (a < b) parent[b] = a;
+          else if (b < a) parent[a] = b;
+        }
+      }
     }
-  });
+  }
 
-  return islandIds;
+  const ids = new Int32Array(count).fill(-1);
+  const islandSizes: number[] = [];
+  for (let index = 0; index < labels.length; index++) {
+    const label = labels[index]!;
+    if (label < 0) continue;
+    const root = find(label);
+    let id = ids[root]!;
+    if (id < 0) {
+      id = ids[root] = islandSizes.length;
+      islandSizes.push(0);
+    }
+    labels[index] = id;
+    islandSizes[id]!++;
+  }
+  return { islandIndex: labels, islandSizes };
 }
 
 /**
@@ -389,7 +1002,7 @@ function precomputeIslandIds(
  * @param islandPortalEntries 岛屿入口映射
  * @param islandPortalExits 岛屿出口映射
  */
-function precomputeIslandPortals(islandIndex: Int16Array, portals: Portal[]) {
+function precomputeIslandPortals(islandIndex: Int32Array, portals: Portal[]) {
   const islandPortalEntries: Map<number, number[]> = new Map();
   const islandPortalExits: Map<number, number[]> = new Map();
 
@@ -415,24 +1028,79 @@ function precomputeIslandPortals(islandIndex: Int16Array, portals: Portal[]) {
   return { islandPortalEntries, islandPortalExits };
 }
 
+/**
+ * 计算每个传送门终点(to)到同一岛屿内其他传送门起点(from)的最小代价。
+ * 每个终点只做一次 Dijkstra 搜索，途中经过会触发传送的格子不可穿过（但可以作为目的地）。
+ * 提供 targets 时只计算这些终点。
+ */
 function computePortalDistances(
   portals: Portal[],
-  islandIndex: Int16Array,
-  tilesLength: number,
-  aStar: (start: number, goal: number) => number | null,
+  islandIndex: Int32Array,
+  geometry: GridGeometry,
+  directions: readonly Direction[],
+  adjacentIndex: (idx: number, direction: Direction) => number,
+  getMoveCost: (idx: number, direction: Direction) => number,
+  targets?: Set<number>,
 ): Map<number, Map<number, number>> {
+  const tilesLength = geometry.width * geometry.height;
   const distances = new Map<number, Map<number, number>>();
+  if (portals.length === 0) return distances;
+
+  const gScore = new Float64Array(tilesLength);
+  const visited = new Uint32Array(tilesLength);
+  const closed = new Uint32Array(tilesLength);
+  const heap = new TypedMinHeap();
+  let generation = 0;
+  const triggers = (idx: number, direction: Direction) =>
+    portals.some(
+      (p) =>
+        p.from === idx &&
+        (p.direction === undefined || p.direction === direction),
+    );
+  const portalFroms = new Set(portals.map((p) => p.from));
+
   for (const portal of portals) {
     const to = portal.to;
+    if (targets && !targets.has(to)) continue;
     if (to < 0 || to >= tilesLength) continue;
     const island = islandIndex[to];
     if (island === -1) continue;
+
+    // 到达每个传送门起点的代价
+    const reached = new Map<number, number>();
+    generation++;
+    heap.clear();
+    gScore[to] = 0;
+    visited[to] = generation;
+    heap.push(to, 0);
+    while (heap.size > 0) {
+      const current = heap.pop();
+      if (closed[current] === generation) continue;
+      closed[current] = generation;
+      for (const direction of directions) {
+        const neighbor = adjacentIndex(current, direction);
+        if (neighbor < 0 || closed[neighbor] === generation) continue;
+        const cost = gScore[current]! + getMoveCost(neighbor, direction);
+        if (portalFroms.has(neighbor)) {
+          if (cost < (reached.get(neighbor) ?? Infinity)) {
+            reached.set(neighbor, cost);
+          }
+          if (triggers(neighbor, direction)) continue;
+        }
+        if (visited[neighbor] !== generation || cost < gScore[neighbor]!) {
+          visited[neighbor] = generation;
+          gScore[neighbor] = cost;
+          heap.push(neighbor, cost);
+        }
+      }
+    }
+
     const distMap = new Map<number, number>();
     for (const otherPortal of portals) {
       if (otherPortal.from < 0 || otherPortal.from >= tilesLength) continue;
       if (otherPortal !== portal && islandIndex[otherPortal.from] === island) {
-        const cost = aStar(to, otherPortal.from);
-        if (cost !== null) {
+        const cost = reached.get(otherPortal.from);
+        if (cost !== undefined) {
           distMap.set(otherPortal.from, cost);
         }
       }
@@ -444,110 +1112,6 @@ function computePortalDistances(
   return distances;
 }
 
-function aStar(
-  start: number,
-  goal: number,
-  geometry: GridGeometry,
-  isObstacle: (idx: number) => boolean,
-  getCost: (idx: number) => number,
-  portals: Portal[],
-): number | null {
-  if (
-    start < 0 ||
-    start >= geometry.width * geometry.height ||
-    goal < 0 ||
-    goal >= geometry.width * geometry.height
-  )
-    return null;
-  if (isObstacle(start) || isObstacle(goal)) return null;
-
-  const openSet = new Set<number>();
-  openSet.add(start);
-  const closedSet = new Set<number>();
-  const gScore = new Map<number, number>();
-  gScore.set(start, 0);
-  const fScore = new Map<number, number>();
-  fScore.set(
-    start,
-    Math.abs(geometry.fromIndex(start).x - geometry.fromIndex(goal).x) +
-      Math.abs(geometry.fromIndex(start).y - geometry.fromIndex(goal).y),
-  );
-
-  let iterations = 0;
-  while (openSet.size > 0) {
-    iterations++;
-    if (iterations > 10000) {
-      return null;
-    }
-
-    // Find node with lowest fScore
-    let current = -1;
-    let lowest = Infinity;
-    for (const node of openSet) {
-      const f = fScore.get(node) || Infinity;
-      if (f < lowest) {
-        lowest = f;
-        current = node;
-      }
-    }
-
-    if (current < 0 || current >= geometry.width * geometry.height) {
-      openSet.delete(current);
-      continue;
-    }
-
-    if (current === goal) {
-      return gScore.get(current)!;
-    }
-
-    openSet.delete(current);
-    closedSet.add(current);
-
-    // Try all directions
-    const dirTriples: [number, number, Direction][] = [
-      [0, 1, Direction.Down],
-      [0, -1, Direction.Up],
-      [1, 0, Direction.Right],
-      [-1, 0, Direction.Left],
-    ];
-    for (const [dx, dy, direction] of dirTriples) {
-      const nx = geometry.fromIndex(current).x + dx;
-      const ny = geometry.fromIndex(current).y + dy;
-      if (nx >= 0 && nx < geometry.width && ny >= 0 && ny < geometry.height) {
-        const neighbor = geometry.toIndex(nx, ny);
-        if (
-          isObstacle(neighbor) ||
-          (neighbor != goal &&
-            portals.some(
-              (p) =>
-                p.from === neighbor &&
-                (p.direction === undefined || p.direction === direction),
-            )) ||
-          closedSet.has(neighbor)
-        )
-          continue;
-        const cost = getCost(neighbor);
-        const tentativeG = gScore.get(current)! + cost;
-        if (tentativeG < (gScore.get(neighbor) || Infinity)) {
-          gScore.set(neighbor, tentativeG);
-          fScore.set(
-            neighbor,
-            tentativeG +
-              Math.abs(
-                geometry.fromIndex(neighbor).x - geometry.fromIndex(goal).x,
-              ) +
-              Math.abs(
-                geometry.fromIndex(neighbor).y - geometry.fromIndex(goal).y,
-              ),
-          );
-          openSet.add(neighbor);
-        }
-      }
-    }
-  }
-  return null;
-}
-
 function computePortalPaths(
   portals: Portal[],
   portalDistances: Map<number, Map<number, number>>,
@@ -650,6 +1214,37 @@ function precomputeAreaIndex(tilesLength: number, areas: Area[]): Int16Array {
   return areaIndex;
 }
 
+/**
+ * 预计算同时属于多个区域的格子所属的全部区域索引。
+ * @param tilesLength 格子总数
+ * @param areas 区域列表
+ * @returns 格子到区域索引列表（按定义顺序）的映射，只包含属于多个区域的格子
+ */
+function precomputeAreaOverlaps(
+  tilesLength: number,
+  areas: Area[],
+): Map<number, number[]> {
+  const first = new Int16Array(tilesLength).fill(-1);
+  const overlaps = new Map<number, number[]>();
+
+  for (let areaIdx = 0; areaIdx < areas.length; areaIdx++) {
+    for (const cellIdx of areas[areaIdx]!.cells) {
+      if (cellIdx < 0 || cellIdx >= tilesLength) continue;
+      const firstIdx = first[cellIdx]!;
+      if (firstIdx < 0) {
+        first[cellIdx] = areaIdx;
+      } else if (firstIdx !== areaIdx) {
+        let list = overlaps.get(cellIdx);
+        if (!list) overlaps.set(cellIdx, (list = [firstIdx]));
+        // 同一个区域重复列出的格子只记录一次
+        if (list[list.length - 1] !== areaIdx) list.push(areaIdx);
+      }
+    }
+  }
+
+  return overlaps;
+}
+
 /**
  * 预计算区域名称到索引的映射。
  * 如果存在重名区域，后定义的会覆盖先定义的。
@@ -0,0 +1,117 @@
+import type { EntityId, Query, World } from "@codehz/ecs";
+import type { SyncPass } from "@codehz/pipeline";
+import { PlayerId, type ScriptPlatform } from "@miehoukingdom/world-interface";
+import { CurrentArea, Position } from "../components.ts";
+import type { GridMap } from "../map.ts";
+
+const NO_AREAS: string[] = [];
+
+function sameAreas(a: readonly string[], b: readonly string[]): boolean {
+  return a.length === b.length && a.every((name, i) => name === b[i]);
+}
+
+/**
+ * 区域追踪处理过程
+ *
+ * 负责追踪实体所在的区域。该过程会：
+ * - 查询所有具有Position组件的实体，计算其所在的全部区域（重叠的区域会同时计入）
+ * - 维护CurrentArea组件，不在任何区域时移除
+ * - 所在区域变化时，为具有PlayerId的实体发出 `area:enter` / `area:leave` 事件，
+ *   实体被删除时也会发出 `area:leave`
+ * - 维护每个区域内的实体，供 `getOccupants` / `getPlayersIn` 查询
+ *
+ * 区域本身被修改（GridMap.setArea / removeArea）时，同样会按新的区域范围发出事件。
+ */
+export class AreaTrackingPass implements SyncPass {
+  private query: Query;
+  /**
+   * 区域名称 → 区域内的实体
+   */
+  private occupants = new Map<string, EntityId[]>();
+  /**
+   * 具有PlayerId的实体及其所在的区域，用于在实体被删除时发出离开事件
+   */
+  private players = new Map<EntityId, { playerId: string; areas: string[] }>();
+
+  constructor(
+    private world: World,
+    private map: GridMap,
+    private platform: ScriptPlatform,
+  ) {
+    this.query = world.createQuery([Position]);
+  }
+
+  run(): void {
+    const occupants = new Map<string, EntityId[]>();
+    const players = new Map<EntityId, { playerId: string; areas: string[] }>();
+    this.query.forEach(
+      [Position, { optional: CurrentArea }, { optional: PlayerId }],
+      (entity, position, current, playerId) => {
+        const areas = this.areaNamesAt(position.x, position.y);
+        for (const area of areas) {
+          let list = occupants.get(area);
+          if (!list) occupants.set(area, (list = []));
+          list.push(entity);
+        }
+        if (playerId) players.set(entity, { playerId: playerId.value, areas });
+
+        const previous = current?.value ?? NO_AREAS;
+        if (sameAreas(previous, areas)) return;
+        if (areas.length > 0) {
+          this.world.set(entity, CurrentArea, areas);
+        } else {
+          this.world.remove(entity, CurrentArea);
+        }
+        if (playerId) this.emitChanges(playerId.value, previous, areas);
+      },
+    );
+    for (const [entity, { playerId, areas }] of this.players) {
+      if (!players.has(entity)) this.emitChanges(playerId, areas, NO_AREAS);
+    }
+    this.occupants = occupants;
+    this.players = players;
+  }
+
+  /**
+   * 区域内的实体（上一次执行时的结果）
+   */
+  getOccupants(area: string): readonly EntityId[] {
+    return this.occupants.get(area) ?? [];
+  }
+
+  /**
+   * 区域内的玩家 ID（上一次执行时的结果）
+   */
+  getPlayersIn(area: string): string[] {
+    return this.getOccupants(area).flatMap((entity) => {
+      const player = this.players.get(entity);
+      return player ? [player.playerId] : [];
+    });
+  }
+
+  private areaNamesAt(x: number, y: number): string[] {
+    const { geometry } = this.map;
+    if (!geometry.inBounds(x, y)) return NO_AREAS;
+    const areas = this.map.getAreasAt(geometry.toIndex(x, y));
+    if (areas.length === 0) return NO_AREAS;
+    // 重名的区域只计一次
+    return [...new Set(areas.map((area) => area.name))];
+  }
+
+  private emitChanges(
+    playerId: string,
+    previous: readonly string[],
+    current: readonly string[],
+  ): void {
+    for (const area of previous) {
+      if (!current.includes(area)) {
+        this.platform.emitEvent("area:leave", { playerId, area });
+      }
+    }
+    for (const area of current) {
+      if (!previous.includes(area)) {
+        this.platform.emitEvent("area:enter", { playerId, area });
+      }
+    }
+  }
+}
@@ -0,0 +1,76 @@
+import type { EntityId, Query, World } from "@codehz/ecs";
+import type { SyncPass } from "@codehz/pipeline";
+import { BehaviorTree, type BehaviorNode } from "../behavior.ts";
+import { Behavior } from "../components.ts";
+import type { GridMap } from "../map.ts";
+
+/**
+ * 行为树处理过程
+ *
+ * 负责执行实体的行为树。该过程会：
+ * - 查询所有具有Behavior组件的实体，按名称找到注册的行为树
+ * - 每个 tick 从根节点开始执行一次，正在运行的节点从上次的位置继续
+ * - 把节点的运行状态、黑板数据和执行结果写回Behavior组件，随世界一起保存
+ * - 根节点完成（成功或失败）后，下一个 tick 重新开始执行
+ *
+ * 叶子节点通过已有的机制驱动实体（GoalPathfinding、GoalArea、StraightWalk、Timer、
+ * TaskManager 任务、对话等），见 `behavior.ts` 中的节点函数。
+ */
+export class BehaviorPass implements SyncPass {
+  private query: Query;
+  private trees = new Map<string, BehaviorTree>();
+  /**
+   * 已经报告过的未注册行为树名称
+   */
+  private unknown = new Set<string>();
+
+  /**
+   * @param trees 行为树名称 → 根节点
+   * @param warn 可选的警告日志函数，用于报告未注册的行为树
+   */
+  constructor(
+    private world: World,
+    private map: GridMap,
+    trees: Record<string, BehaviorNode>,
+    private warn?: (msg: string) => void,
+  ) {
+    for (const [name, root] of Object.entries(trees)) {
+      this.trees.set(name, new BehaviorTree(root));
+    }
+    this.query = world.createQuery([Behavior]);
+  }
+
+  run(): void {
+    this.query.forEach([Behavior], (entity, behavior) => {
+      const tree = this.trees.get(behavior.tree);
+      if (!tree) {
+        if (!this.unknown.has(behavior.tree)) {
+          this.unknown.add(behavior.tree);
+          this.warn?.(`Unknown behavior tree: ${behavior.tree}`);
+        }
+        return;
+      }
+      const ctx = tree.context(this.world, this.map, entity, behavior);
+      const status = ctx.tick(tree.root);
+      this.world.set(entity, Behavior, {
+        tree: behavior.tree,
+        memory: ctx.state,
+        blackboard: ctx.blackboard,
+        status,
+      });
+    });
+  }
+
+  /**
+   * 中止实体正在运行的节点（清理已经启动的动作）并移除Behavior组件
+   */
+  stop(entity: EntityId): void {
+    if (!this.world.has(entity, Behavior)) return;
+    const behavior = this.world.get(entity, Behavior);
+    const tree = this.trees.get(behavior.tree);
+    if (tree) {
+      tree.context(this.world, this.map, entity, behavior).halt(tree.root);
+    }
+    this.world.remove(entity, Behavior);
+  }
+}
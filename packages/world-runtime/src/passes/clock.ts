@@ -0,0 +1,35 @@
+import type { EntityId, Query, World } from "@codehz/ecs";
+import type { SyncPass } from "@codehz/pipeline";
+import type { WorldClock } from "../clock.ts";
+import { ClockState } from "../components.ts";
+
+/**
+ * 世界时钟处理过程
+ *
+ * 负责推进世界时钟并把它保存到世界中，使其随存档一起保存。该过程会：
+ * - 构造时从世界中（例如存档恢复的）ClockState 组件恢复经过的 tick 数
+ * - 每个 tick 把时钟推进一个 tick，并写回 ClockState 组件
+ *
+ * 应放在 pipeline 的开头，使同一个 tick 中的其他过程看到的都是推进后的时间。
+ */
+export class ClockPass implements SyncPass {
+  private query: Query;
+  private entity?: EntityId;
+
+  constructor(
+    private world: World,
+    private clock: WorldClock,
+  ) {
+    this.query = world.createQuery([ClockState]);
+    this.query.forEach([ClockState], (entity, state) => {
+      this.entity = entity;
+      this.clock.restore(state.ticks);
+    });
+  }
+
+  run(): void {
+    this.clock.advance();
+    this.entity ??= this.world.new();
+    this.world.set(this.entity, ClockState, { ticks: this.clock.ticks });
+  }
+}
@@ -0,0 +1,323 @@
+import { relation, type EntityId, type Query, type World } from "@codehz/ecs";
+import type { SyncPass } from "@codehz/pipeline";
+import {
+  PlayerId,
+  PlayerStatus,
+  type ScriptPlatform,
+} from "@miehoukingdom/world-interface";
+import { Conversation, Move, Participant, Position } from "../components.ts";
+
+/**
+ * 参与者之间默认允许的最大距离（格子数）
+ */
+const DEFAULT_RANGE = 3;
+/**
+ * 默认等待参与者就位的最大 tick 数
+ */
+const DEFAULT_START_TIMEOUT = 100;
+
+/**
+ * 发起对话的选项
+ */
+export interface ConversationOptions {
+  /** 对话 ID，默认为 `conversation-<对话实体>`（对话结束后可能被新的对话重用） */
+  id?: string;
+  /** 参与者之间允许的最大距离（格子数，按切比雪夫距离计算），默认 3 */
+  range?: number;
+  /** 等待参与者靠近并停下的最大 tick 数，超过后放弃对话，默认 100 */
+  startTimeout?: number;
+}
+
+type ConversationAction =
+  | { type: "say"; conversation: EntityId; source?: string; content: string }
+  | { type: "end"; conversation: EntityId };
+
+interface ParticipantState {
+  entity: EntityId;
+  x: number;
+  y: number;
+  moving: boolean;
+}
+
+/**
+ * 对话处理过程
+ *
+ * 负责驱动对话实体（具有Conversation组件）并发出 `conversation:*` 事件。该过程会：
+ * - 等待所有参与者彼此距离不超过 range 个格子并停止移动后，发出 `conversation:start`；
+ *   超过 startTimeout 仍未就位时放弃对话（不发出事件）
+ * - 按发言顺序轮流发言：只有当前发言者可以说话，说完后轮到下一个参与者；
+ *   系统消息（旁白）不受轮次限制。每条消息都会记入日志并发出 `conversation:update`
+ * - 为当前发言者设置 `PlayerStatus: "speaking"`，轮次变化或对话结束时移除
+ * - 参与者离开范围、被删除（例如被 setupPlayers 移除）或调用 `end` 时结束对话，
+ *   发出 `conversation:end` 并删除对话实体
+ *
+ * 对话状态和消息日志保存在对话实体上，参与者通过 Participant 关系指向对话实体，随世界一起保存。
+ * `start` 立即创建对话实体；`say`、`narrate`、`end` 会排队，直到该过程执行时才生效。
+ */
+export class ConversationPass implements SyncPass {
+  private conversations: Query;
+  private players: Query;
+  private actions: ConversationAction[] = [];
+  /**
+   * 已经创建但还没有出现在查询中的对话（在同一 tick 内创建，尚未同步）
+   */
+  private created = new Map<EntityId, string[]>();
+  /**
+   * 玩家 ID → 所在的对话实体
+   */
+  private members = new Map<string, EntityId>();
+
+  /**
+   * @param warn 可选的警告日志函数，用于报告被丢弃的消息
+   */
+  constructor(
+    private world: World,
+    private platform: ScriptPlatform,
+    private warn?: (msg: string) => void,
+  ) {
+    this.conversations = world.createQuery([Conversation]);
+    this.players = world.createQuery([PlayerId, Position]);
+    // 从存档恢复的对话，在该过程第一次执行之前也能查到参与者所在的对话
+    this.conversations.forEach([Conversation], (entity, state) => {
+      for (const playerId of state.participants) {
+        this.members.set(playerId, entity);
+      }
+    });
+  }
+
+  /**
+   * 发起对话
+   *
+   * @param participants 参与者实体（需要具有PlayerId），按发言顺序排列，第一个参与者先发言
+   * @returns 对话实体
+   */
+  start(participants: EntityId[], options: ConversationOptions = {}): EntityId {
+    const playerIds = participants.map((entity) => {
+      if (!this.world.has(entity, PlayerId)) {
+        throw new Error(`Entity ${entity} is not a player`);
+      }
+      return this.world.get(entity, PlayerId);
+    });
+    if (playerIds.length < 2 || new Set(playerIds).size !== playerIds.length) {
+      throw new Error("A conversation needs at least two distinct players");
+    }
+    for (const playerId of playerIds) {
+      if (this.members.has(playerId)) {
+        throw new Error(`Player ${playerId} is already in a conversation`);
+      }
+    }
+    const conversation = this.world.new();
+    this.world.set(conversation, Conversation, {
+      id: options.id ?? `conversation-${conversation}`,
+      participants: playerIds,
+      turn: 0,
+      messages: [],
+      range: options.range ?? DEFAULT_RANGE,
+      started: false,
+      timeout: options.startTimeout ?? DEFAULT_START_TIMEOUT,
+    });
+    participants.forEach((entity, index) => {
+      this.world.set(entity, relation(Participant, conversation), index);
+    });
+    this.created.set(conversation, playerIds);
+    for (const playerId of playerIds) this.members.set(playerId, conversation);
+    return conversation;
+  }
+
+  /**
+   * 以玩家身份发言，只有轮到该玩家时才会生效
+   */
+  say(conversation: EntityId, playerId: string, content: string): void {
+    this.actions.push({ type: "say", conversation, source: playerId, content });
+  }
+
+  /**
+   * 发送系统消息（如旁白），不影响发言轮次
+   */
+  narrate(conversation: EntityId, content: string): void {
+    this.actions.push({ type: "say", conversation, content });
+  }
+
+  /**
+   * 结束对话
+   */
+  end(conversation: EntityId): void {
+    this.actions.push({ type: "end", conversation });
+  }
+
+  /**
+   * 玩家所在的对话实体（包括尚未开始的对话）
+   */
+  conversationOf(playerId: string): EntityId | undefined {
+    return this.members.get(playerId);
+  }
+
+  run(): void {
+    const actions = new Map<EntityId, ConversationAction[]>();
+    for (const action of this.actions) {
+      let list = actions.get(action.conversation);
+      if (!list) actions.set(action.conversation, (list = []));
+      list.push(action);
+    }
+    this.actions = [];
+
+    const players = new Map<string, ParticipantState>();
+    this.players.forEach(
+      [PlayerId, Position, { optional: Move }],
+      (entity, playerId, position, move) => {
+        players.set(playerId, {
+          entity,
+          x: position.x,
+          y: position.y,
+          moving: move !== undefined,
+        });
+      },
+    );
+
+    const members = new Map<string, EntityId>();
+    this.conversations.forEach([Conversation], (conversation, state) => {
+      this.created.delete(conversation);
+      const queued = actions.get(conversation) ?? [];
+      actions.delete(conversation);
+      const participants: ParticipantState[] = [];
+      for (const playerId of state.participants) {
+        const participant = players.get(playerId);
+        // 参与者已被删除（例如 setupPlayers 移除了角色）
+        if (!participant) {
+          this.finish(conversation, state, players);
+          return;
+        }
+        participants.push(participant);
+      }
+
+      const next: Conversation = { ...state, messages: [...state.messages] };
+      if (!next.started) {
+        if (
+          participants.every((participant) => !participant.moving) &&
+          this.inRange(participants, next.range)
+        ) {
+          next.started = true;
+          this.platform.emitEvent("conversation:start", {
+            conversationId: next.id,
+            playerIds: next.participants,
+          });
+        } else if (next.timeout <= 0) {
+          this.warn?.(
+            `Participants of conversation ${next.id} did not gather in time.`,
+          );
+          this.finish(conversation, next, players);
+          return;
+        } else {
+          next.timeout--;
+        }
+      } else if (!this.inRange(participants, next.range)) {
+        this.finish(conversation, next, players);
+        return;
+      }
+
+      for (const action of queued) {
+        if (action.type === "end") {
+          this.finish(conversation, next, players);
+          return;
+        }
+        if (!next.started) {
+          this.warn?.(
+            `Conversation ${next.id} has not started yet, message dropped.`,
+          );
+          continue;
+        }
+        const { source, content } = action;
+        if (source !== undefined && source !== next.participants[next.turn]) {
+          this.warn?.(
+            `It is not ${source}'s turn in conversation ${next.id}, message dropped.`,
+          );
+          continue;
+        }
+        next.messages.push(
+          source === undefined ? { content } : { source, content },
+        );
+        this.platform.emitEvent("conversation:update", {
+          conversationId: next.id,
+          source,
+          content,
+        });
+        if (source !== undefined) {
+          next.turn = (next.turn + 1) % next.participants.length;
+        }
+      }
+
+      if (next.started) {
+        const previous = state.started ? participants[state.turn] : undefined;
+        const speaker = participants[next.turn]!;
+        if (previous !== speaker) {
+          if (previous) this.clearSpeaking(previous.entity);
+          this.world.set(speaker.entity, PlayerStatus, "speaking");
+        }
+      }
+      this.world.set(conversation, Conversation, next);
+      for (const playerId of next.participants) {
+        members.set(playerId, conversation);
+      }
+    });
+
+    // 尚未同步的对话：保留其成员和排队的操作，等到下一次执行
+    for (const [conversation, playerIds] of this.created) {
+      for (const playerId of playerIds) members.set(playerId, conversation);
+      const pending = actions.get(conversation);
+      if (pending) this.actions.push(...pending);
+      actions.delete(conversation);
+    }
+    for (const conversation of actions.keys()) {
+      this.warn?.(`Conversation ${conversation} does not exist.`);
+    }
+    this.members = members;
+  }
+
+  /**
+   * 所有参与者两两之间的距离是否都不超过 range
+   */
+  private inRange(participants: ParticipantState[], range: number): boolean {
+    for (let i = 0; i < participants.length; i++) {
+      for (let j = i + 1; j < participants.length; j++) {
+        const a = participants[i]!;
+        const b = participants[j]!;
+        if (Math.max(Math.abs(a.x - b.x), Math.abs(a.y - b.y)) > range) {
+          return false;
+        }
+      }
+    }
+    return true;
+  }
+
+  private clearSpeaking(entity: EntityId): void {
+    if (
+      this.world.has(entity, PlayerStatus) &&
+      this.world.get(entity, PlayerStatus) === "speaking"
+    ) {
+      this.world.remove(entity, PlayerStatus);
+    }
+  }
+
+  /**
+   * 结束对话：已经开始的对话发出 `conversation:end`，移除剩余参与者的关系和发言状态，并删除对话实体
+   */
+  private finish(
+    conversation: EntityId,
+    state: Conversation,
+    players: Map<string, ParticipantState>,
+  ): void {
+    if (state.started) {
+      this.platform.emitEvent("conversation:end", { conversationId: state.id });
+    }
+    for (const playerId of state.participants) {
+      const participant = players.get(playerId);
+      if (!participant) continue;
+      this.world.remove(
+        participant.entity,
+        relation(Participant, conversation),
+      );
+      this.clearSpeaking(participant.entity);
+    }
+    this.world.delete(conversation);
+  }
+}
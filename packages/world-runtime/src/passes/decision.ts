@@ -0,0 +1,472 @@
+import { relation, type EntityId, type Query, type World } from "@codehz/ecs";
+import type { SyncPass } from "@codehz/pipeline";
+import {
+  PlayerId,
+  PlayerStatus,
+  type ScriptPlatform,
+} from "@miehoukingdom/world-interface";
+import {
+  Conversation,
+  CurrentArea,
+  Decision,
+  DecisionAgent,
+  FaceDirection,
+  Fixed,
+  GoalArea,
+  GoalFailed,
+  GoalPathfinding,
+  GoalReached,
+  Move,
+  PathPlan,
+  Pending,
+  Perception,
+  Position,
+  StraightWalk,
+  Timeout,
+  Timer,
+} from "../components.ts";
+import type {
+  DecisionAction,
+  DecisionProvider,
+  Observation,
+  ObservedConversation,
+  ObservedPlayer,
+} from "../decision.ts";
+import type { GridMap } from "../map.ts";
+import { TaskManager, type ResumedTask, type TaskHandle } from "../task.ts";
+import type { ConversationPass } from "./conversation.ts";
+
+/**
+ * 默认同时进行的决策数量上限
+ */
+const DEFAULT_MAX_CONCURRENT = 4;
+/**
+ * 默认的决策超时 tick 数
+ */
+const DEFAULT_TIMEOUT = 300;
+/**
+ * 默认观察附近玩家的半径（格子数）
+ */
+const DEFAULT_OBSERVATION_RADIUS = 8;
+/**
+ * 决策没有返回动作时，默认等待多少 tick 后再次决策
+ */
+const DEFAULT_IDLE_TICKS = 30;
+/**
+ * 观察结果中最多包含的对话消息数量
+ */
+const RECENT_MESSAGES = 10;
+/**
+ * `goto` 动作生成的 GoalPathfinding 的最大重试次数
+ */
+const GOTO_MAX_RETRIES = 20;
+/**
+ * `thinking:start` 事件的内容
+ */
+const THINKING_CONTENT = "正在思考下一步行动...";
+
+/**
+ * 角色具有这些组件时视为正在移动，不会执行下一个动作或开始新的决策
+ */
+const BUSY_COMPONENTS = [
+  Move,
+  StraightWalk,
+  PathPlan,
+  GoalPathfinding,
+  GoalArea,
+];
+
+/**
+ * DecisionPass 的选项
+ */
+export interface DecisionPassOptions {
+  /** 同时进行的决策数量上限，超出的角色等到之后的 tick 再决策，默认 4 */
+  maxConcurrent?: number;
+  /** 决策的超时 tick 数，超时后中止本次决策并重新决策，默认 300 */
+  timeout?: number;
+  /** 观察附近玩家的半径（格子数），实体具有Perception组件时改用其感知结果，默认 8 */
+  observationRadius?: number;
+  /** 决策没有返回动作或失败时，等待多少 tick 后再次决策，默认 30 */
+  idleTicks?: number;
+  /** 对话处理过程，用于执行 `say` 动作；未提供时 `say` 动作会被忽略 */
+  conversations?: ConversationPass;
+  /** 可选的警告日志函数，用于报告决策失败和无效的动作 */
+  warn?: (msg: string) => void;
+}
+
+interface PlayerState {
+  playerId: string;
+  x: number;
+  y: number;
+}
+
+/**
+ * 决策处理过程
+ *
+ * 负责让具有DecisionAgent组件的角色通过 DecisionProvider（例如 LLM）决定行动。该过程会：
+ * - 为空闲的角色（没有剩余的动作、没有在移动）生成观察结果（位置、区域、附近的玩家、所在的对话），
+ *   通过内部的 TaskManager 启动决策任务，同时进行的决策不超过 maxConcurrent 个
+ * - 决策开始时设置 `PlayerStatus: "thinking"` 并发出 `thinking:start`，
+ *   完成、失败、超时或实体被删除时移除该状态并发出 `thinking:end`
+ * - 实体被删除或移除DecisionAgent组件时中止决策（通过 AbortSignal 通知提供者）
+ * - 把返回的动作保存到Decision组件上，按顺序执行：`goto`、`goto-area`、`walk`、`wait`
+ *   会等到角色停下或计时结束后再执行下一个动作，`face`、`say` 立即执行
+ * - 动作全部执行完后移除Decision组件，角色在下一个 tick 重新决策
+ *
+ * 决策结果由 TaskManager 在确定的 tick 边界上生效；内部的 TaskManager 由该过程执行，
+ * 不需要单独加入 pipeline。从存档恢复时，未完成的决策会重新生成观察结果并再次请求。
+ */
+export class DecisionPass implements SyncPass {
+  readonly tasks = new TaskManager(Decision);
+  private agents: Query;
+  private queued: Query;
+  private completed: Query;
+  private players: Query;
+  private conversations: Query;
+  /**
+   * 正在进行的决策：实体 → 玩家 ID 和任务的中止信号
+   */
+  private thinking = new Map<
+    EntityId,
+    { playerId: string; signal: AbortSignal }
+  >();
+  /**
+   * 已经返回、等待 TaskManager 应用的决策结果
+   */
+  private results = new Map<EntityId, DecisionAction[]>();
+  private resumed: ResumedTask[] = [];
+  private timer = relation(Timer, Decision);
+  private timeout = relation(Timeout, Decision);
+
+  /**
+   * @param provider 决策提供者
+   */
+  constructor(
+    private world: World,
+    private map: GridMap,
+    private platform: ScriptPlatform,
+    private provider: DecisionProvider,
+    private options: DecisionPassOptions = {},
+  ) {
+    this.tasks
+      .onResume((task) => this.resumed.push(task))
+      .init(world, options.warn);
+    this.agents = world.createQuery([DecisionAgent, PlayerId, Position], {
+      negativeComponentTypes: [Decision, ...this.tasks.components],
+    });
+    this.queued = world.createQuery([Decision, DecisionAgent]);
+    this.completed = world.createQuery([this.tasks.completedComponent]);
+    this.players = world.createQuery([PlayerId, Position]);
+    this.conversations = world.createQuery([Conversation]);
+  }
+
+  run(): void {
+    const world = this.world;
+    this.tasks.run();
+
+    const players = new Map<EntityId, PlayerState>();
+    this.players.forEach([PlayerId, Position], (entity, playerId, position) => {
+      players.set(entity, { playerId, x: position.x, y: position.y });
+    });
+
+    // 从存档恢复的决策：重新请求
+    const resumed = this.resumed;
+    this.resumed = [];
+    for (const task of resumed) {
+      if (players.has(task.entity) && world.has(task.entity, DecisionAgent)) {
+        this.think(task.entity, task, players);
+      } else {
+        task.fail();
+      }
+    }
+
+    // 被中止的决策（超时、实体被删除、不再是DecisionAgent）
+    for (const [entity, { playerId, signal }] of this.thinking) {
+      if (!signal.aborted && !world.has(entity, DecisionAgent)) {
+        this.tasks.stop(entity);
+      }
+      if (signal.aborted) this.finish(entity, playerId, players.has(entity));
+    }
+
+    // 已完成的决策：保存返回的动作
+    this.completed.forEach([], (entity) => {
+      world.remove(entity, this.tasks.completedComponent);
+      const thinking = this.thinking.get(entity);
+      const actions = this.results.get(entity) ?? [];
+      this.finish(entity, thinking?.playerId, true);
+      if (!world.has(entity, DecisionAgent)) return;
+      world.set(entity, Decision, {
+        actions:
+          actions.length > 0
+            ? actions
+            : [
+                {
+                  type: "wait",
+                  ticks: this.options.idleTicks ?? DEFAULT_IDLE_TICKS,
+                },
+              ],
+      });
+    });
+
+    // 按顺序执行剩余的动作
+    this.queued.forEach([Decision], (entity, decision) => {
+      if (this.isBusy(entity)) return;
+      if (world.has(entity, this.timeout)) world.remove(entity, this.timeout);
+      if (decision.actions.length === 0) {
+        world.remove(entity, Decision);
+        return;
+      }
+      const actions = [...decision.actions];
+      while (actions.length > 0) {
+        if (this.perform(entity, actions.shift()!, players.get(entity))) break;
+      }
+      world.set(entity, Decision, { actions });
+    });
+
+    // 为空闲的角色开始新的决策
+    const maxConcurrent = this.options.maxConcurrent ?? DEFAULT_MAX_CONCURRENT;
+    this.agents.forEach([], (entity) => {
+      if (this.thinking.size >= maxConcurrent) return;
+      if (this.isBusy(entity)) return;
+      this.think(
+        entity,
+        this.tasks.start(entity, {
+          timeout: this.options.timeout ?? DEFAULT_TIMEOUT,
+        }),
+        players,
+      );
+    });
+  }
+
+  /**
+   * 生成观察结果并请求决策，结果返回后通过任务句柄完成任务
+   */
+  private think(
+    entity: EntityId,
+    task: TaskHandle,
+    players: Map<EntityId, PlayerState>,
+  ): void {
+    const { playerId } = players.get(entity)!;
+    const observation = this.observe(entity, players);
+    this.thinking.set(entity, { playerId, signal: task.signal });
+    this.world.set(entity, PlayerStatus, "thinking");
+    this.platform.emitEvent("thinking:start", {
+      playerId,
+      content: THINKING_CONTENT,
+    });
+    // 提供者同步抛出的异常也按决策失败处理，不能中断当前 tick
+    new Promise<DecisionAction[]>((resolve) =>
+      resolve(this.provider.decide(observation, task.signal)),
+    ).then(
+      (actions) => {
+        if (task.signal.aborted) return;
+        this.results.set(entity, actions);
+        task.complete();
+      },
+      (error: unknown) => {
+        if (task.signal.aborted) return;
+        this.options.warn?.(`Decision for player ${playerId} failed: ${error}`);
+        this.results.set(entity, []);
+        task.complete();
+      },
+    );
+  }
+
+  /**
+   * 结束决策：移除思考状态并发出 `thinking:end`
+   *
+   * @param playerId 决策开始时的玩家 ID，为 undefined 时（决策在保存前就已完成）不发出事件
+   * @param alive 实体是否仍然存在（已被删除的实体不能再修改组件）
+   */
+  private finish(
+    entity: EntityId,
+    playerId: string | undefined,
+    alive: boolean,
+  ): void {
+    this.thinking.delete(entity);
+    this.results.delete(entity);
+    if (
+      alive &&
+      this.world.has(entity, PlayerStatus) &&
+      this.world.get(entity, PlayerStatus) === "thinking"
+    ) {
+      this.world.remove(entity, PlayerStatus);
+    }
+    if (playerId !== undefined) {
+      this.platform.emitEvent("thinking:end", { playerId });
+    }
+  }
+
+  private observe(
+    entity: EntityId,
+    players: Map<EntityId, PlayerState>,
+  ): Observation {
+    const world = this.world;
+    const self = players.get(entity)!;
+    const perceived = world.has(entity, Perception)
+      ? world.get(entity, Perception).perceived
+      : undefined;
+    const radius =
+      perceived === undefined
+        ? (this.options.observationRadius ?? DEFAULT_OBSERVATION_RADIUS)
+        : Infinity;
+    const nearby: ObservedPlayer[] = [];
+    for (const other of perceived ?? players.keys()) {
+      const state = players.get(other);
+      if (other === entity || !state) continue;
+      const distance = Math.hypot(state.x - self.x, state.y - self.y);
+      if (distance > radius) continue;
+      nearby.push({
+        playerId: state.playerId,
+        x: state.x,
+        y: state.y,
+        distance,
+      });
+    }
+    nearby.sort(
+      (a, b) =>
+        a.distance - b.distance ||
+        (a.playerId < b.playerId ? -1 : a.playerId > b.playerId ? 1 : 0),
+    );
+
+    let conversation: ObservedConversation | undefined;
+    this.conversations.forEach([Conversation], (_, state) => {
+      if (conversation || !state.participants.includes(self.playerId)) return;
+      conversation = {
+        id: state.id,
+        participants: [...state.participants],
+        started: state.started,
+        speaker: state.participants[state.turn]!,
+        messages: state.messages.slice(-RECENT_MESSAGES),
+      };
+    });
+
+    return {
+      playerId: self.playerId,
+      position: { x: self.x, y: self.y },
+      direction: world.has(entity, FaceDirection)
+        ? world.get(entity, FaceDirection)
+        : undefined,
+      areas: world.has(entity, CurrentArea)
+        ? [...world.get(entity, CurrentArea)]
+        : [],
+      nearby,
+      conversation,
+    };
+  }
+
+  /**
+   * 执行一个动作
+   *
+   * @returns 是否需要等到角色停下或计时结束后再执行下一个动作
+   */
+  private perform(
+    entity: EntityId,
+    action: DecisionAction,
+    player: PlayerState | undefined,
+  ): boolean {
+    const world = this.world;
+    const { geometry } = this.map;
+    const warn = (msg: string) =>
+      this.options.warn?.(
+        `Action ${action.type} of player ${player?.playerId} ignored: ${msg}`,
+      );
+    switch (action.type) {
+      case "goto":
+      case "goto-area":
+      case "walk":
+        if (world.has(entity, Fixed)) {
+          warn("player is fixed.");
+          return false;
+        }
+        break;
+    }
+    switch (action.type) {
+      case "goto": {
+        const { x, y } = action;
+        if (
+          !Number.isInteger(x) ||
+          !Number.isInteger(y) ||
+          !geometry.inBounds(x, y) ||
+          this.map.isObstacle(geometry.toIndex(x, y))
+        ) {
+          warn(`target (${x}, ${y}) is not walkable.`);
+          return false;
+        }
+        this.clearGoals(entity, GoalPathfinding);
+        world.set(entity, GoalPathfinding, {
+          targetIndex: geometry.toIndex(x, y),
+          retryCount: 0,
+          maxRetries: GOTO_MAX_RETRIES,
+        });
+        return true;
+      }
+      case "goto-area":
+        this.clearGoals(entity, GoalArea);
+        world.set(entity, GoalArea, { name: action.area });
+        return true;
+      case "walk":
+        if (
+          !this.map.directions.includes(action.direction) ||
+          !Number.isInteger(action.distance) ||
+          action.distance < 0
+        ) {
+          warn(
+            `invalid direction ${action.direction} or distance ${action.distance}.`,
+          );
+          return false;
+        }
+        this.clearGoals(entity, StraightWalk);
+        world.set(entity, StraightWalk, {
+          direction: action.direction,
+          remainingDistance: action.distance,
+        });
+        return true;
+      case "face":
+        if (!this.map.directions.includes(action.direction)) {
+          warn(`invalid direction ${action.direction}.`);
+          return false;
+        }
+        // 通过 Pending 关系延迟到当前移动结束后再转向
+        world.set(entity, relation(Pending, FaceDirection), action.direction);
+        return false;
+      case "say": {
+        const { conversations } = this.options;
+        const conversation =
+          player && conversations?.conversationOf(player.playerId);
+        if (!conversations || !player || conversation === undefined) {
+          warn("player is not in a conversation.");
+          return false;
+        }
+        conversations.say(conversation, player.playerId, action.content);
+        return false;
+      }
+      case "wait":
+        world.set(entity, this.timer, Math.max(0, Math.floor(action.ticks)));
+        return true;
+    }
+  }
+
+  private isBusy(entity: EntityId): boolean {
+    return (
+      BUSY_COMPONENTS.some((component) => this.world.has(entity, component)) ||
+      this.world.has(entity, this.timer)
+    );
+  }
+
+  /**
+   * 开始新的移动目标前，清除旧的目标和结果（keep 为即将设置的目标组件）
+   */
+  private clearGoals(entity: EntityId, keep: EntityId): void {
+    for (const component of [
+      PathPlan,
+      StraightWalk,
+      GoalPathfinding,
+      GoalArea,
+      GoalReached,
+      GoalFailed,
+    ]) {
+      if (component !== keep) this.world.remove(entity, component);
+    }
+  }
+}
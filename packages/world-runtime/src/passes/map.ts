@@ -0,0 +1,80 @@
+import type { EntityId, World } from "@codehz/ecs";
+import type { SyncPass } from "@codehz/pipeline";
+import { MapState } from "../components.ts";
+import type { GridMap } from "../map.ts";
+import type { TileType } from "../types.ts";
+
+/**
+ * 地图状态持久化过程
+ *
+ * 负责把运行时对地图的修改（GridMap.setTile / addPortal / setArea 等）保存到世界中，
+ * 使其随存档一起保存。该过程会：
+ * - 构造时从世界中（例如存档恢复的）MapState 组件恢复地图修改
+ * - 地图发生变化后，在下一次执行时把与原始地图的差异写回 MapState 组件
+ *
+ * 应在其他依赖地图的 pass 之前构造（避免它们在恢复时重复重建缓存），
+ * 并放在 pipeline 的末尾（world.sync 之前），以保证保存的状态包含本帧所有的修改。
+ */
+export class MapPass implements SyncPass {
+  private entity?: EntityId;
+  private originalTiles: TileType[];
+  private originalPortals: string;
+  private originalAreas: string;
+  private editedTiles = new Set<number>();
+  private dirty = false;
+
+  constructor(
+    private world: World,
+    private map: GridMap,
+  ) {
+    this.originalTiles = [...map.tiles];
+    this.originalPortals = JSON.stringify(map.portals);
+    this.originalAreas = JSON.stringify(map.areas);
+    map.onChange((change) => {
+      this.dirty = true;
+      if (change.type === "tile") this.editedTiles.add(change.index);
+    });
+    world.createQuery([MapState]).forEach([MapState], (entity, state) => {
+      this.entity = entity;
+      this.restore(state);
+    });
+    this.dirty = false;
+  }
+
+  run(): void {
+    if (!this.dirty) return;
+    this.dirty = false;
+    const tiles: MapState["tiles"] = [];
+    for (const index of [...this.editedTiles].sort((a, b) => a - b)) {
+      const tile = this.map.tiles[index]!;
+      if (tile === this.originalTiles[index]) {
+        this.editedTiles.delete(index);
+      } else {
+        tiles.push([index, tile]);
+      }
+    }
+    const portals = JSON.stringify(this.map.portals);
+    const areas = JSON.stringify(this.map.areas);
+    this.entity ??= this.world.new();
+    this.world.set(this.entity, MapState, {
+      tiles,
+      portals:
+        portals === this.originalPortals ? undefined : JSON.parse(portals),
+      areas: areas === this.originalAreas ? undefined : JSON.parse(areas),
+    });
+  }
+
+  private restore(state: MapState): void {
+    for (const [index, tile] of state.tiles) {
+      this.map.setTile(index, tile);
+    }
+    if (state.portals) {
+      for (const portal of [...this.map.portals]) this.map.removePortal(portal);
+      for (const portal of state.portals) this.map.addPortal(portal);
+    }
+    if (state.areas) {
+      for (const area of [...this.map.areas]) this.map.removeArea(area.name);
+      for (const area of state.areas) this.map.setArea(area);
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import type { EntityId, Query, World } from "@codehz/ecs";
+import type { SyncPass } from "@codehz/pipeline";
+import { PlayerId } from "@miehoukingdom/world-interface";
+import type { WorldClock } from "../clock.ts";
+import {
+  Conversation,
+  Memory,
+  Perception,
+  type MemoryEntry,
+} from "../components.ts";
+
+/**
+ * 记忆处理过程
+ *
+ * 负责把角色感知到的事件追加到Memory组件中。该过程会：
+ * - 根据Perception组件中新感知到（entered）和不再感知到（left）的玩家，记录 `seen` 和 `lost`
+ * - 为对话的每个参与者记录对话中的新消息（`heard`）
+ * - 记录通过 `remember` 添加的自定义事件（`note`）
+ * - 超过 capacity 时丢弃最早的记录
+ *
+ * 记录中的 tick 为世界时钟的 tick 数。只有具有Memory组件的实体才会记录，
+ * Perception 的变化只在更新后的一个 tick 内可见，因此该过程需要每个 tick 执行。
+ */
+export class MemoryPass implements SyncPass {
+  private query: Query;
+  private players: Query;
+  private conversations: Query;
+  /**
+   * 对话实体 → 已经记录过的消息数量
+   */
+  private heard = new Map<EntityId, number>();
+  private notes: { entity: EntityId; entry: MemoryEntry }[] = [];
+
+  constructor(
+    private world: World,
+    private clock: WorldClock,
+  ) {
+    this.query = world.createQuery([Memory]);
+    this.players = world.createQuery([PlayerId]);
+    this.conversations = world.createQuery([Conversation]);
+    // 存档中已有的消息在保存前已经记录过
+    this.conversations.forEach([Conversation], (entity, state) => {
+      this.heard.set(entity, state.messages.length);
+    });
+  }
+
+  /**
+   * 为实体添加一条自定义记录，在该过程下一次执行时生效
+   */
+  remember(entity: EntityId, content: string, subject?: string): void {
+    this.notes.push({
+      entity,
+      entry: { tick: this.clock.ticks, type: "note", subject, content },
+    });
+  }
+
+  run(): void {
+    const tick = this.clock.ticks;
+    const pending = new Map<EntityId, MemoryEntry[]>();
+    const record = (entity: EntityId, entry: MemoryEntry) => {
+      let list = pending.get(entity);
+      if (!list) pending.set(entity, (list = []));
+      list.push(entry);
+    };
+
+    for (const { entity, entry } of this.notes) record(entity, entry);
+    this.notes = [];
+
+    const names = new Map<EntityId, string>();
+    const entities = new Map<string, EntityId>();
+    this.players.forEach([PlayerId], (entity, playerId) => {
+      names.set(entity, playerId);
+      entities.set(playerId, entity);
+    });
+
+    const heard = new Map<EntityId, number>();
+    this.conversations.forEach([Conversation], (conversation, state) => {
+      const messages = state.messages.slice(this.heard.get(conversation) ?? 0);
+      heard.set(conversation, state.messages.length);
+      for (const { source, content } of messages) {
+        for (const playerId of state.participants) {
+          const entity = entities.get(playerId);
+          if (entity === undefined) continue;
+          record(entity, { tick, type: "heard", subject: source, content });
+        }
+      }
+    });
+    this.heard = heard;
+
+    this.query.forEach(
+      [Memory, { optional: Perception }],
+      (entity, memory, perception) => {
+        const entries: MemoryEntry[] = [];
+        for (const other of perception?.value.entered ?? []) {
+          const subject = names.get(other);
+          if (subject !== undefined)
+            entries.push({ tick, type: "seen", subject });
+        }
+        for (const other of perception?.value.left ?? []) {
+          const subject = names.get(other);
+          if (subject !== undefined)
+            entries.push({ tick, type: "lost", subject });
+        }
+        entries.push(...(pending.get(entity) ?? []));
+        if (entries.length === 0) return;
+        const all = [...(memory.entries ?? []), ...entries];
+        this.world.set(entity, Memory, {
+          ...memory,
+          entries: all.slice(Math.max(0, all.length - memory.capacity)),
+        });
+      },
+    );
+  }
+}
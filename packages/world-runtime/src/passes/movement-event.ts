@@ -0,0 +1,52 @@
+import type { World } from "@codehz/ecs";
+import type { SyncPass } from "@codehz/pipeline";
+import { PlayerId, type ScriptPlatform } from "@miehoukingdom/world-interface";
+import type { GridGeometry } from "../geometry.ts";
+import type { GoalOutcome } from "./path-finding.ts";
+
+/**
+ * 移动事件处理过程
+ *
+ * 把PathFindingPass输出的寻路目标结果转换为平台事件：
+ * - 到达目标时发出 `movement:arrived`
+ * - 放弃目标时发出 `movement:failed`（附带失败原因）
+ * - 目标来自GoalArea时，事件中附带区域名称
+ *
+ * 只有具有PlayerId组件的实体会发出事件。
+ */
+export class MovementEventPass
+  implements SyncPass<{ outcomes?: GoalOutcome[] }>
+{
+  constructor(
+    private world: World,
+    private geometry: GridGeometry,
+    private platform: ScriptPlatform,
+  ) {}
+
+  run({ outcomes }: { outcomes?: GoalOutcome[] }): void {
+    for (const { entity, targetIndex, reason, area } of outcomes ?? []) {
+      if (!this.world.has(entity, PlayerId)) continue;
+      const playerId = this.world.get(entity, PlayerId);
+      const extra = area === undefined ? {} : { area };
+      if (reason === undefined) {
+        const { x, y } = this.geometry.fromIndex(targetIndex);
+        this.platform.emitEvent("movement:arrived", {
+          playerId,
+          x,
+          y,
+          ...extra,
+        });
+      } else {
+        // 前往区域时可能没有选出目标格子
+        const target =
+          targetIndex >= 0 ? this.geometry.fromIndex(targetIndex) : {};
+        this.platform.emitEvent("movement:failed", {
+          playerId,
+          ...target,
+          reason,
+          ...extra,
+        });
+      }
+    }
+  }
+}
@@ -1,55 +1,178 @@
-import type { Query, World } from "@codehz/ecs";
+import type { EntityId, Query, World } from "@codehz/ecs";
 import type { SyncPass } from "@codehz/pipeline";
-import { GoalPathfinding, PathPlan, Position } from "../components.ts";
-import type { GridMap } from "../map.ts";
+import {
+  DynamicCollider,
+  Fixed,
+  GoalArea,
+  GoalFailed,
+  GoalPathfinding,
+  GoalReached,
+  Move,
+  MovementProfile,
+  PathPlan,
+  Position,
+  type GoalFailureReason,
+  type PathStep,
+} from "../components.ts";
+import type { GridMap, MovementRules } from "../map.ts";
+import { HierarchicalPathfinder, type PathfinderStats } from "../pathfinder.ts";
+import { ReservationTable } from "../reservation.ts";
 import { Direction } from "../types.ts";
 import type { BitSet } from "../utils/bit-set.ts";
-import MinHeap from "../utils/min-heap.ts";
+
+/**
+ * 为GoalArea生成的GoalPathfinding的最大重试次数
+ */
+const GOAL_AREA_MAX_RETRIES = 20;
+
+/**
+ * 寻路目标的结果，reason 为空表示已到达
+ */
+export interface GoalOutcome {
+  entity: EntityId;
+  /** 目标格子，前往区域且没有选出格子时为 -1 */
+  targetIndex: number;
+  reason?: GoalFailureReason;
+  /** 目标来自GoalArea时的区域名称 */
+  area?: string;
+}
 
 /**
  * 寻路处理过程
  * 
- * 使用A*算法实现两层寻路系统：
- * - 低层寻路：在同一岛屿内（连通区域）进行细粒度寻路
- * - 高层寻路：在不同岛屿间使用传送门连接
+ * 使用分层寻路器（HPA*，见 HierarchicalPathfinder）计算路径：
+ * - 高层寻路：在由簇入口和传送门组成的抽象图上寻找路线，结果按（起点簇，目标）缓存
+ * - 低层寻路：在抽象路线经过的簇组成的走廊内细化为格子路径；起点和目标的簇相同或相邻时
+ *   直接在整张地图上用 A* 搜索
  * 
  * 该过程会：
  * - 查询所有具有Position和GoalPathfinding组件但无PathPlan的实体
  * - 根据当前位置和目标位置计算路径
  * - 生成PathPlan组件供PlanExecutionPass执行
+ * - 到达目标时添加GoalReached；重试次数（或执行受阻后重新规划的次数）用尽时添加GoalFailed，
+ *   并在输出中列出本 tick 产生的结果（见 MovementEventPass）
  * - 支持动态碰撞体检查，避免与正在移动的实体碰撞
+ * - 地图发生变化时，移除经过变化格子的PathPlan，让实体重新寻路
+ * - 按实体的MovementProfile寻路，每种移动规则使用单独的分层寻路器
+ * - 通过时空预约表（ReservationTable）与其他实体的计划协作：路径在预约时间窗口内的部分
+ *   会避开其他实体将要占用的格子（必要时插入等待动作），新计划随后也会加入预约
+ * - 为具有GoalArea的实体选出区域内最近的可到达、未被占据的格子（考虑岛屿和传送门），
+ *   作为GoalPathfinding的目标；该格子被其他动态碰撞体占据时重新选择
  * 
  * 输入参数包含一个可选的BitSet，表示所有被占据的网格位置。
  */
-export class PathFindingPass implements SyncPass<{ colliders?: BitSet }> {
+export class PathFindingPass
+  implements SyncPass<{ colliders?: BitSet }, { outcomes: GoalOutcome[] }>
+{
   private query: Query;
+  private areaGoals: Query;
+  private plans: Query;
+  private colliders: Query;
+  /**
+   * 自上次执行以来发生变化的格子
+   */
+  private changed = new Set<number>();
+  /**
+   * 按移动规则（MovementRules.key）创建的寻路器
+   */
+  private pathfinders = new Map<string, HierarchicalPathfinder>();
+  /**
+   * 上一次执行时的寻路统计信息
+   */
+  stats: PathfinderStats;
 
+  /**
+   * @param pathfinder 没有MovementProfile的实体使用的分层寻路器，默认按地图创建
+   * @param reservations 时空预约表，每个 tick 有实体需要寻路时按所有动态碰撞体的当前计划重建
+   */
   constructor(
     private world: World,
     private map: GridMap,
+    readonly pathfinder = new HierarchicalPathfinder(map),
+    readonly reservations = new ReservationTable(map),
   ) {
+    this.stats = pathfinder.takeStats();
     this.query = world.createQuery([Position, GoalPathfinding], {
-      negativeComponentTypes: [PathPlan],
+      negativeComponentTypes: [PathPlan, Fixed],
+    });
+    this.areaGoals = world.createQuery([Position, GoalArea], {
+      negativeComponentTypes: [Fixed],
+    });
+    this.plans = world.createQuery([PathPlan, Position]);
+    this.colliders = world.createQuery([DynamicCollider, Position]);
+    map.onChange(({ cells }) => {
+      for (const cell of cells) this.changed.add(cell);
     });
   }
 
-  run({ colliders }: { colliders?: BitSet }): void {
+  run({ colliders }: { colliders?: BitSet }): { outcomes: GoalOutcome[] } {
+    if (this.changed.size > 0) {
+      this.invalidatePlans();
+    }
+    const outcomes: GoalOutcome[] = [];
+    const retargeted = this.resolveAreaGoals(colliders, outcomes);
+    let reserved = false;
     this.query.forEach(
-      [Position, GoalPathfinding],
-      (entity, position, goal) => {
+      [
+        Position,
+        GoalPathfinding,
+        { optional: MovementProfile },
+        { optional: GoalArea },
+      ],
+      (entity, position, goal, profile, goalArea) => {
+        // 目标刚刚更换，下一个 tick 再按新目标寻路
+        if (retargeted.has(entity)) return;
         const currentIndex = this.map.geometry.toIndex(position.x, position.y);
+        const area = goalArea?.value.name;
 
         if (currentIndex === goal.targetIndex) {
           this.world.remove(entity, GoalPathfinding);
+          this.world.remove(entity, GoalArea);
+          this.world.remove(entity, GoalFailed);
+          this.world.set(entity, GoalReached, {
+            targetIndex: currentIndex,
+            area,
+          });
+          outcomes.push({ entity, targetIndex: currentIndex, area });
+          return;
+        }
+
+        const fail = (reason: GoalFailureReason) => {
+          const { targetIndex } = goal;
+          this.world.remove(entity, GoalPathfinding);
+          this.world.remove(entity, GoalArea);
+          this.world.remove(entity, GoalReached);
+          this.world.set(entity, GoalFailed, { targetIndex, reason, area });
+          outcomes.push({ entity, targetIndex, reason, area });
+        };
+        if ((goal.replans ?? 0) > goal.maxRetries) {
+          fail("blocked");
           return;
         }
 
+        if (!reserved) {
+          this.reserveAll();
+          reserved = true;
+        }
+        const rules = this.map.getMovementRules(profile?.value);
         const generatedPlan = this.generatePlan(
+          entity,
           currentIndex,
           goal.targetIndex,
+          rules,
           colliders,
         );
-        if (generatedPlan) {
+        if (typeof generatedPlan === "object") {
+          // 新计划从下一个 tick 开始执行
+          this.reservations.release(entity);
+          this.reservations.reservePlan(
+            entity,
+            currentIndex,
+            generatedPlan.path,
+            rules,
+            undefined,
+            1,
+          );
           this.world.set(entity, PathPlan, generatedPlan);
           this.world.set(entity, GoalPathfinding, { ...goal, retryCount: 0 });
         } else if (goal.retryCount < goal.maxRetries) {
@@ -58,184 +181,246 @@ export class PathFindingPass implements SyncPass<{ colliders?: BitSet }> {
             retryCount: goal.retryCount + 1,
           });
         } else {
-          this.world.remove(entity, GoalPathfinding);
+          fail(generatedPlan);
         }
       },
     );
+    this.stats = this.pathfinder.takeStats();
+    for (const pathfinder of this.pathfinders.values()) {
+      const stats = pathfinder.takeStats();
+      for (const key of Object.keys(stats) as (keyof PathfinderStats)[]) {
+        this.stats[key] += stats[key];
+      }
+    }
+    return { outcomes };
   }
 
-  private generatePlan(
-    startIndex: number,
-    targetIndex: number,
-    colliders?: BitSet,
-  ): PathPlan | null {
-    const startIsland = this.map.islandIndex[startIndex]!;
-    const goalIsland = this.map.islandIndex[targetIndex]!;
-    if (startIsland === -1 || goalIsland === -1) return null; // 障碍物
+  /**
+   * 为GoalArea选出目标格子。还没有目标、目标已经不在区域内，或目标被其他动态碰撞体占据时重新选择；
+   * 区域内所有能到达的格子都被占据时，选择最近的格子等待其空出
+   *
+   * @returns 本 tick 更换了目标（或放弃）的实体
+   */
+  private resolveAreaGoals(
+    colliders: BitSet | undefined,
+    outcomes: GoalOutcome[],
+  ): Set<EntityId> {
+    const retargeted = new Set<EntityId>();
+    this.areaGoals.forEach(
+      [
+        Position,
+        GoalArea,
+        { optional: GoalPathfinding },
+        { optional: Move },
+        { optional: MovementProfile },
+      ],
+      (entity, position, { name }, goal, move, profile) => {
+        const currentIndex = this.map.geometry.toIndex(position.x, position.y);
+        // 实体自己所在和正在前往的格子不算被占据
+        const occupied = (idx: number) =>
+          idx !== currentIndex &&
+          idx !== move?.value.targetIdx &&
+          (colliders?.has(idx) ?? false);
+        const target = goal?.value.targetIndex;
+        if (
+          target !== undefined &&
+          this.map.isInArea(target, name) &&
+          !occupied(target)
+        ) {
+          return;
+        }
 
-    const dynamicCheck = (idx: number) => colliders?.has(idx) ?? false;
+        const area = this.map.getAreaByName(name);
+        const cell = area
+          ? this.pathfinderFor(
+              this.map.getMovementRules(profile?.value),
+            ).findNearest(currentIndex, area.cells, occupied)
+          : -1;
+        if (cell === target) return;
+        retargeted.add(entity);
+        this.world.remove(entity, PathPlan);
+        if (cell < 0) {
+          this.world.remove(entity, GoalArea);
+          this.world.remove(entity, GoalPathfinding);
+          this.world.remove(entity, GoalReached);
+          this.world.set(entity, GoalFailed, {
+            targetIndex: -1,
+            reason: "unreachable",
+            area: name,
+          });
+          outcomes.push({
+            entity,
+            targetIndex: -1,
+            reason: "unreachable",
+            area: name,
+          });
+          return;
+        }
+        this.world.set(entity, GoalPathfinding, {
+          maxRetries: GOAL_AREA_MAX_RETRIES,
+          ...goal?.value,
+          targetIndex: cell,
+          retryCount: 0,
+        });
+      },
+    );
+    return retargeted;
+  }
 
-    if (startIsland === goalIsland) {
-      // 同一岛屿，低层寻路
-      const path = this.lowLevelPathfind(startIndex, targetIndex, dynamicCheck);
-      if (path?.length) {
-        const target = this.simulatePath(startIndex, path);
-        return { targetIndex: target, path, nextActionIndex: 0 };
-      }
-      const dir = this.getDirectionTowards(startIndex, targetIndex);
-      if (dir) {
-        const move = this.map.generateMove(startIndex, dir, dynamicCheck);
-        if (move) {
-          return {
-            targetIndex: move.targetIdx,
-            path: [dir],
-            nextActionIndex: 0,
-          };
+  /**
+   * 按所有动态碰撞体当前的移动和计划重建预约表
+   */
+  private reserveAll(): void {
+    this.reservations.clear();
+    this.colliders.forEach(
+      [
+        Position,
+        { optional: Move },
+        { optional: PathPlan },
+        { optional: MovementProfile },
+      ],
+      (entity, position, move, plan, profile) => {
+        const cell = this.map.geometry.toIndex(position.x, position.y);
+        if (plan) {
+          this.reservations.reservePlan(
+            entity,
+            cell,
+            plan.value.path.slice(plan.value.nextActionIndex),
+            this.map.getMovementRules(profile?.value),
+            move?.value,
+            plan.value.waitTicks ?? 0,
+          );
+        } else {
+          this.reservations.reservePlan(
+            entity,
+            cell,
+            [],
+            undefined,
+            move?.value,
+          );
         }
-      }
-    } else {
-      // 不同岛屿，高层寻路
-      const portalSequence = this.highLevelPathfind(startIsland, goalIsland);
-      if (!portalSequence || portalSequence.length === 0) return null;
-      const firstPortalIdx = portalSequence[0]!;
-      const firstPortal = this.map.portals[firstPortalIdx]!;
-      const pathToPortal = this.lowLevelPathfind(
-        startIndex,
-        firstPortal.from,
-        dynamicCheck,
+      },
+    );
+  }
+
+  private pathfinderFor(rules?: MovementRules): HierarchicalPathfinder {
+    if (!rules) return this.pathfinder;
+    let pathfinder = this.pathfinders.get(rules.key);
+    if (!pathfinder) {
+      pathfinder = new HierarchicalPathfinder(
+        this.map,
+        this.pathfinder.clusterSize,
+        rules,
       );
-      if (pathToPortal?.length) {
-        return { targetIndex, path: pathToPortal, nextActionIndex: 0 };
-      }
-      const dir = this.getDirectionTowards(startIndex, firstPortal.from);
-      if (dir) {
-        const move = this.map.generateMove(startIndex, dir, dynamicCheck);
-        if (move) {
-          return { targetIndex, path: [dir], nextActionIndex: 0 };
-        }
-      }
+      this.pathfinders.set(rules.key, pathfinder);
     }
-    return null;
+    return pathfinder;
   }
 
-  private lowLevelPathfind(
-    startIndex: number,
-    goalIndex: number,
-    dynamicCheck: (idx: number) => boolean,
-  ): Direction[] | null {
-    const cameFrom = new Map<number, number>();
-    const gScore = new Map<number, number>();
-    gScore.set(startIndex, 0);
-    const fScore = new Map<number, number>();
-    fScore.set(startIndex, this.map.estimateDistance(startIndex, goalIndex));
-
-    const openSet = new MinHeap();
-    openSet.push(startIndex, fScore.get(startIndex)!);
-    const closedSet = new Set<number>();
-
-    let bestNode = -1;
-    let bestF = Infinity;
-
-    const DYNAMIC_OBSTACLE_NEAR_THRESHOLD = 1;
-    const DYNAMIC_OBSTACLE_BASE_EXTRA_COST = 20;
-
-    while (openSet.size > 0) {
-      const popped = openSet.pop()!;
-      const current = popped.key;
-      if (current !== startIndex && fScore.get(current)! < bestF) {
-        bestNode = current;
-        bestF = fScore.get(current)!;
-      }
-      if (current === goalIndex) {
-        return this.reconstructPath(cameFrom, current, startIndex);
-      }
-      closedSet.add(current);
-      const neighbors = this.map.getNeighbors(current);
-      for (const neighbor of neighbors) {
-        if (closedSet.has(neighbor) || this.map.isObstacle(neighbor)) continue;
-        let extraCost = 0;
-        if (dynamicCheck(neighbor)) {
-          const dist = this.map.estimateDistance(neighbor, goalIndex);
-          if (dist <= DYNAMIC_OBSTACLE_NEAR_THRESHOLD) {
-            continue;
-          } else {
-            extraCost =
-              DYNAMIC_OBSTACLE_BASE_EXTRA_COST *
-              (DYNAMIC_OBSTACLE_NEAR_THRESHOLD / dist);
+  /**
+   * 移除剩余路径经过变化格子（或已经无法执行）的PathPlan
+   */
+  private invalidatePlans(): void {
+    const changed = this.changed;
+    this.changed = new Set();
+    this.plans.forEach(
+      [PathPlan, Position, { optional: Move }, { optional: MovementProfile }],
+      (entity, plan, position, move, profile) => {
+        const rules = this.map.getMovementRules(profile?.value);
+        // 正在移动时，剩余路径从这一步的目标格子开始
+        let current =
+          move?.value.targetIdx ??
+          this.map.geometry.toIndex(position.x, position.y);
+        for (let i = plan.nextActionIndex; i < plan.path.length; i++) {
+          const step = plan.path[i]!;
+          if (typeof step === "object") continue;
+          const next = this.map.generateMove(current, step, undefined, rules);
+          if (!next || changed.has(next.targetIdx)) {
+            this.world.remove(entity, PathPlan);
+            return;
           }
+          current = next.targetIdx;
         }
-        const tentativeG =
-          gScore.get(current)! + this.map.getCost(neighbor) + extraCost;
-        if (tentativeG < (gScore.get(neighbor) ?? Infinity)) {
-          cameFrom.set(neighbor, current);
-          gScore.set(neighbor, tentativeG);
-          fScore.set(
-            neighbor,
-            tentativeG + this.map.estimateDistance(neighbor, goalIndex),
-          );
-          openSet.decreasePriority(neighbor, fScore.get(neighbor)!);
-        }
-      }
-    }
-    if (bestNode !== -1 && bestNode !== startIndex) {
-      return this.reconstructPath(cameFrom, bestNode, startIndex);
-    }
-    return null;
+      },
+    );
   }
 
-  private highLevelPathfind(
-    startIsland: number,
-    goalIsland: number,
-  ): number[] | null {
-    let bestPath: number[] | null = null;
-    let minCost = Infinity;
-    const startPortals = this.map.islandPortalEntries.get(startIsland) ?? [];
-    const goalPortals = this.map.islandPortalExits.get(goalIsland) ?? [];
-    for (const startPortalIdx of startPortals) {
-      const pathsFromStart = this.map.portalPaths.get(startPortalIdx);
-      if (!pathsFromStart) continue;
-      for (const goalPortalIdx of goalPortals) {
-        const pathInfo = pathsFromStart.get(goalPortalIdx);
-        if (pathInfo && pathInfo.cost < minCost) {
-          minCost = pathInfo.cost;
-          bestPath = pathInfo.path;
-        }
+  /**
+   * @returns 路径计划，无法生成时返回失败原因
+   */
+  private generatePlan(
+    entity: EntityId,
+    startIndex: number,
+    targetIndex: number,
+    rules: MovementRules | undefined,
+    colliders?: BitSet,
+  ): PathPlan | GoalFailureReason {
+    // 目标不可通行时直接放弃（寻路器也会检查，这里避免创建寻路器）
+    if (!this.map.isPassable(targetIndex, rules)) return "unreachable";
+
+    const dynamicCheck = (idx: number) => colliders?.has(idx) ?? false;
+
+    const result = this.pathfinderFor(rules).findPath(
+      startIndex,
+      targetIndex,
+      dynamicCheck,
+    );
+    if (!result) return "unreachable";
+    if (result.path.length) {
+      return {
+        targetIndex: result.end,
+        path: this.cooperate(entity, startIndex, result.path, rules),
+        nextActionIndex: 0,
+      };
+    }
+    // 目标附近都被占据，至少朝目标方向走一步
+    const dir = this.getDirectionTowards(startIndex, targetIndex);
+    if (dir !== null) {
+      const move = this.map.generateMove(startIndex, dir, dynamicCheck, rules);
+      if (move) {
+        return {
+          targetIndex: move.targetIdx,
+          path: [dir],
+          nextActionIndex: 0,
+        };
       }
     }
-    return bestPath;
+    return "blocked";
   }
 
-  private simulatePath(start: number, path: Direction[]): number {
-    let current = start;
-    for (const dir of path) {
-      const move = this.map.generateMove(current, dir);
+  /**
+   * 用时空搜索替换路径在预约时间窗口内的部分，窗口之外的部分保持不变。
+   * 窗口内无法避开其他实体的预约时返回原路径，由执行时的碰撞检查和死锁检测兜底
+   */
+  private cooperate(
+    entity: EntityId,
+    startIndex: number,
+    path: Direction[],
+    rules: MovementRules | undefined,
+  ): PathStep[] {
+    let waypoint = startIndex;
+    let time = 0;
+    let index = 0;
+    while (index < path.length && time < this.reservations.horizon) {
+      const move = this.map.generateMove(
+        waypoint,
+        path[index]!,
+        undefined,
+        rules,
+      );
       if (!move) break;
-      current = move.targetIdx;
+      waypoint = move.targetIdx;
+      time += move.totalTicks;
+      index++;
     }
-    return current;
-  }
-
-  private reconstructPath(
-    cameFrom: Map<number, number>,
-    current: number,
-    start: number,
-  ): Direction[] {
-    const path: Direction[] = [];
-    while (current !== start) {
-      const prev = cameFrom.get(current);
-      if (!prev) break;
-      const { x: cx, y: cy } = this.map.geometry.fromIndex(current);
-      const { x: px, y: py } = this.map.geometry.fromIndex(prev);
-      let dir: Direction;
-      if (cx === px) {
-        dir = cy > py ? Direction.Down : Direction.Up;
-      } else {
-        dir = cx > px ? Direction.Right : Direction.Left;
-      }
-      path.unshift(dir);
-      current = prev;
-    }
-    return path;
+    const window = this.reservations.search(
+      entity,
+      startIndex,
+      waypoint,
+      rules,
+      1,
+    );
+    return window ? [...window, ...path.slice(index)] : path;
   }
 
   private getDirectionTowards(
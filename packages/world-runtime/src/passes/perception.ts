@@ -0,0 +1,134 @@
+import type { EntityId, Query, World } from "@codehz/ecs";
+import type { SyncPass } from "@codehz/pipeline";
+import { Perception, Position } from "../components.ts";
+import type { GridMap } from "../map.ts";
+import { SpatialIndex } from "../spatial-index.ts";
+
+/**
+ * 感知处理过程
+ *
+ * 负责维护空间索引和实体的感知结果。该过程会：
+ * - 每个 tick 按所有具有Position组件的实体重建空间索引（SpatialIndex），供其他过程做半径查询
+ * - 为具有Perception组件的实体找出半径内的其他实体，需要视线时排除被障碍物遮挡的实体
+ * - 更新Perception中当前感知到的实体，以及与上一个 tick 相比新感知到（entered）和
+ *   不再感知到（left）的实体；结果没有变化时不写入组件
+ *
+ * 查询只检查与感知范围相交的桶，视线检查只针对范围内的实体，因此可以每个 tick 为大量实体执行。
+ */
+export class PerceptionPass implements SyncPass {
+  private positioned: Query;
+  private perceivers: Query;
+  private found: EntityId[] = [];
+
+  /**
+   * @param index 空间索引，默认按地图创建；索引保存的是上一次执行时的位置
+   */
+  constructor(
+    private world: World,
+    private map: GridMap,
+    readonly index = new SpatialIndex(map.geometry),
+  ) {
+    this.positioned = world.createQuery([Position]);
+    this.perceivers = world.createQuery([Perception, Position]);
+  }
+
+  run(): void {
+    this.index.clear();
+    this.positioned.forEach([Position], (entity, position) => {
+      this.index.insert(entity, position.x, position.y);
+    });
+
+    this.perceivers.forEach(
+      [Perception, Position],
+      (entity, perception, position) => {
+        const found = this.found;
+        found.length = 0;
+        this.index.queryRadius(
+          position.x,
+          position.y,
+          perception.radius,
+          found,
+        );
+        const perceived: EntityId[] = [];
+        for (const other of found) {
+          if (other === entity) continue;
+          if (
+            perception.lineOfSight !== false &&
+            !this.visible(entity, other)
+          ) {
+            continue;
+          }
+          perceived.push(other);
+        }
+        perceived.sort((a, b) => a - b);
+
+        const { entered, left } = diffSorted(
+          perception.perceived ?? [],
+          perceived,
+        );
+        if (
+          perception.perceived !== undefined &&
+          entered.length === 0 &&
+          left.length === 0 &&
+          !perception.entered?.length &&
+          !perception.left?.length
+        ) {
+          return;
+        }
+        this.world.set(entity, Perception, {
+          ...perception,
+          perceived,
+          entered,
+          left,
+        });
+      },
+    );
+  }
+
+  /**
+   * 实体 viewer 是否能看到实体 target：两者距离不超过 radius，并且视线没有被障碍物遮挡。
+   * 按上一次执行时的位置判断，任意一方不在索引中时返回 false
+   */
+  canSee(viewer: EntityId, target: EntityId, radius = Infinity): boolean {
+    const from = this.index.cellOf(viewer);
+    const to = this.index.cellOf(target);
+    if (from === undefined || to === undefined) return false;
+    const { width } = this.map.geometry;
+    const dx = (from % width) - (to % width);
+    const dy = Math.floor(from / width) - Math.floor(to / width);
+    return (
+      dx * dx + dy * dy <= radius * radius && this.map.hasLineOfSight(from, to)
+    );
+  }
+
+  private visible(viewer: EntityId, target: EntityId): boolean {
+    return this.map.hasLineOfSight(
+      this.index.cellOf(viewer)!,
+      this.index.cellOf(target)!,
+    );
+  }
+}
+
+/**
+ * 比较两个升序排列的实体列表，返回只在 next 中（entered）和只在 previous 中（left）的实体
+ */
+function diffSorted(
+  previous: readonly EntityId[],
+  next: readonly EntityId[],
+): { entered: EntityId[]; left: EntityId[] } {
+  const entered: EntityId[] = [];
+  const left: EntityId[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < previous.length || j < next.length) {
+    if (j >= next.length || (i < previous.length && previous[i]! < next[j]!)) {
+      left.push(previous[i++]!);
+    } else if (i >= previous.length || next[j]! < previous[i]!) {
+      entered.push(next[j++]!);
+    } else {
+      i++;
+      j++;
+    }
+  }
+  return { entered, left };
+}
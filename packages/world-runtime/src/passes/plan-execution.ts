@@ -1,17 +1,36 @@
-import type { Query, World } from "@codehz/ecs";
+import type { EntityId, Query, World } from "@codehz/ecs";
 import type { SyncPass } from "@codehz/pipeline";
-import { FaceDirection, Move, PathPlan, Position } from "../components.ts";
+import {
+  FaceDirection,
+  Fixed,
+  GoalPathfinding,
+  Move,
+  MovementProfile,
+  PathPlan,
+  Position,
+} from "../components.ts";
+import { DeadlockDetector, type BlockedAgent } from "../deadlock.ts";
+import { DIRECTION_DX, DIRECTION_DY } from "../geometry.ts";
 import type { GridMap } from "../map.ts";
 import type { BitSet } from "../utils/bit-set.ts";
 
+/**
+ * 下一步被挡住时默认最多等待的 tick 数
+ */
+const DEFAULT_PATIENCE = 20;
+
 /**
  * 计划执行处理过程
  * 
  * 负责执行预先生成的寻路计划。该过程会：
  * - 查询所有具有PathPlan和Position但无Move的实体
  * - 根据PathPlan中的方向序列，依次执行每一步的移动
- * - 为每一步生成Move组件和更新FaceDirection
+ * - 为每一步生成Move组件和更新FaceDirection（按实体的MovementProfile计算耗时和通行性）
  * - 更新碰撞位集合以反映实体的新目标位置
+ * - 执行计划中的等待动作（给其他实体让路）
+ * - 下一步被其他实体挡住时保留计划原地等待，并交给DeadlockDetector处理绕路和死锁
+ * - 下一步无法执行或等待超过 patience 个 tick 时，先尝试从受阻的位置绕回原路径；
+ *   绕路失败才移除PathPlan，让寻路过程重新规划（并记录在GoalPathfinding.replans上）
  * - 当计划完成后移除PathPlan组件
  * 
  * 输入参数包含一个可选的BitSet，表示动态碰撞体的位置，用于防止碰撞。
@@ -19,55 +38,154 @@ import type { BitSet } from "../utils/bit-set.ts";
 export class PlanExecutionPass implements SyncPass<{ colliders?: BitSet }> {
   private query: Query;
 
+  /**
+   * @param deadlocks 处理被挡住的实体之间的死锁
+   * @param patience 下一步被挡住时最多等待的 tick 数，超过后绕路或重新寻路
+   */
   constructor(
     private world: World,
     private gridMap: GridMap,
+    readonly deadlocks = new DeadlockDetector(world, gridMap),
+    private patience = DEFAULT_PATIENCE,
   ) {
     this.query = world.createQuery([PathPlan, Position], {
-      negativeComponentTypes: [Move],
+      negativeComponentTypes: [Move, Fixed],
     });
   }
 
   run({ colliders }: { colliders?: BitSet }): void {
-    this.query.forEach([PathPlan, Position], (entity, pathPlan, position) => {
-      if (pathPlan.nextActionIndex >= pathPlan.path.length) {
-        this.world.remove(entity, PathPlan);
-        return;
-      }
-
-      const currentIdx = this.gridMap.geometry.toIndex(position.x, position.y);
-      let actionIdx = pathPlan.nextActionIndex;
+    const blocked = new Map<EntityId, BlockedAgent>();
+    const stuck = new Map<EntityId, BlockedAgent>();
+    this.query.forEach(
+      [PathPlan, Position, { optional: MovementProfile }],
+      (entity, pathPlan, position, profile) => {
+        if (pathPlan.waitTicks) {
+          this.world.set(entity, PathPlan, {
+            ...pathPlan,
+            waitTicks: pathPlan.waitTicks - 1,
+          });
+          return;
+        }
 
-      if (currentIdx === pathPlan.path[actionIdx]) {
-        actionIdx++;
-        if (actionIdx >= pathPlan.path.length) {
+        if (pathPlan.nextActionIndex >= pathPlan.path.length) {
           this.world.remove(entity, PathPlan);
           return;
         }
-      }
 
-      const direction = pathPlan.path[actionIdx]!;
+        const currentIdx = this.gridMap.geometry.toIndex(
+          position.x,
+          position.y,
+        );
+        let actionIdx = pathPlan.nextActionIndex;
 
-      const move = this.gridMap.generateMove(currentIdx, direction, (idx) => {
-        if (colliders) {
-          return colliders.has(idx);
+        if (currentIdx === pathPlan.path[actionIdx]) {
+          actionIdx++;
+          if (actionIdx >= pathPlan.path.length) {
+            this.world.remove(entity, PathPlan);
+            return;
+          }
         }
-        return false;
-      });
 
-      if (move) {
-        this.world.set(entity, Move, move);
-        this.world.set(entity, FaceDirection, direction);
-        if (colliders) {
-          colliders.set(move.targetIdx);
+        const step = pathPlan.path[actionIdx]!;
+
+        // 等待动作：本 tick 算作等待的第一个 tick
+        if (typeof step === "object") {
+          this.world.set(entity, PathPlan, {
+            targetIndex: pathPlan.targetIndex,
+            path: pathPlan.path,
+            nextActionIndex: actionIdx + 1,
+            waitTicks: step.wait - 1,
+          });
+          return;
+        }
+
+        const rules = this.gridMap.getMovementRules(profile?.value);
+        const move = this.gridMap.generateMove(
+          currentIdx,
+          step,
+          undefined,
+          rules,
+        );
+
+        // 下一步无法执行（例如地图发生了变化），先尝试从当前位置绕回原路径
+        if (!move) {
+          const { x, y } = position;
+          const tx = x + DIRECTION_DX[step];
+          const ty = y + DIRECTION_DY[step];
+          if (!this.gridMap.geometry.inBounds(tx, ty)) {
+            this.abandon(entity);
+            return;
+          }
+          stuck.set(entity, {
+            position: currentIdx,
+            target: this.gridMap.geometry.toIndex(tx, ty),
+            plan: pathPlan,
+            actionIndex: actionIdx,
+            rules,
+          });
+          return;
+        }
+        if (colliders?.has(move.targetIdx)) {
+          blocked.set(entity, {
+            position: currentIdx,
+            target: move.targetIdx,
+            plan: pathPlan,
+            actionIndex: actionIdx,
+            rules,
+          });
+          return;
         }
+
+        this.world.set(entity, Move, move);
+        this.world.set(entity, FaceDirection, step);
+        colliders?.set(move.targetIdx);
         this.world.set(entity, PathPlan, {
-          ...pathPlan,
+          targetIndex: pathPlan.targetIndex,
+          path: pathPlan.path,
           nextActionIndex: actionIdx + 1,
         });
-      } else {
-        this.world.remove(entity, PathPlan);
+      },
+    );
+
+    if (blocked.size > 0) {
+      const resolved = this.deadlocks.resolve(blocked);
+      for (const [entity, agent] of blocked) {
+        const replacement = resolved.get(entity);
+        const blockedTicks = (agent.plan.blockedTicks ?? 0) + 1;
+        if (replacement) {
+          this.world.set(entity, PathPlan, replacement);
+        } else if (blockedTicks <= this.patience) {
+          this.world.set(entity, PathPlan, { ...agent.plan, blockedTicks });
+        } else {
+          stuck.set(entity, agent);
+        }
       }
-    });
+    }
+    if (stuck.size > 0) {
+      const rerouted = this.deadlocks.reroute(stuck);
+      for (const entity of stuck.keys()) {
+        const replacement = rerouted.get(entity);
+        if (replacement) {
+          this.world.set(entity, PathPlan, replacement);
+        } else {
+          this.abandon(entity);
+        }
+      }
+    }
+  }
+
+  /**
+   * 放弃路径计划，由寻路过程从当前位置重新规划。
+   * 重新规划的次数记录在GoalPathfinding上，次数过多时寻路目标会失败
+   */
+  private abandon(entity: EntityId): void {
+    this.world.remove(entity, PathPlan);
+    if (this.world.has(entity, GoalPathfinding)) {
+      const goal = this.world.get(entity, GoalPathfinding);
+      this.world.set(entity, GoalPathfinding, {
+        ...goal,
+        replans: (goal.replans ?? 0) + 1,
+      });
+    }
   }
 }
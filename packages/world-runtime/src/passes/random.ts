@@ -0,0 +1,34 @@
+import type { EntityId, Query, World } from "@codehz/ecs";
+import type { SyncPass } from "@codehz/pipeline";
+import { RandomState } from "../components.ts";
+import type { Random } from "../random.ts";
+
+/**
+ * 随机数状态持久化过程
+ *
+ * 负责把共享的 Random 实例的状态保存到世界中，使其随存档一起保存。该过程会：
+ * - 构造时从世界中（例如存档恢复的）RandomState 组件恢复随机数状态
+ * - 每个tick结束前把当前状态写回 RandomState 组件
+ *
+ * 应放在 pipeline 的末尾（world.sync 之前），以保证保存的状态包含本帧所有的随机调用。
+ */
+export class RandomPass implements SyncPass {
+  private query: Query;
+  private entity?: EntityId;
+
+  constructor(
+    private world: World,
+    private random: Random,
+  ) {
+    this.query = world.createQuery([RandomState]);
+    this.query.forEach([RandomState], (entity, state) => {
+      this.entity = entity;
+      this.random.restore(state);
+    });
+  }
+
+  run(): void {
+    this.entity ??= this.world.new();
+    this.world.set(this.entity, RandomState, this.random.state);
+  }
+}
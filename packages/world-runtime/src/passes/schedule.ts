@@ -0,0 +1,68 @@
+import type { Query, World } from "@codehz/ecs";
+import type { SyncPass } from "@codehz/pipeline";
+import type { WorldClock } from "../clock.ts";
+import {
+  Fixed,
+  GoalArea,
+  GoalFailed,
+  GoalPathfinding,
+  GoalReached,
+  PathPlan,
+  Schedule,
+  StraightWalk,
+  type ScheduleEntry,
+} from "../components.ts";
+
+/**
+ * 日程处理过程
+ *
+ * 负责按世界时钟执行角色的日程。该过程会：
+ * - 查询所有具有Schedule组件的实体（被固定在原地的实体除外），找出当前时间所在的日程项
+ * - 进入新的日程项时，取消角色当前的移动目标并设置GoalArea，让角色前往该日程项的区域
+ * - 记录已经设置过目标的日程项，同一个时间段内不会重复设置，角色可以在到达后自由行动
+ *
+ * 日程项在每天同一时间段重复生效；离开所有时间段后，下一次进入时间段时会再次设置目标。
+ */
+export class SchedulePass implements SyncPass {
+  private query: Query;
+
+  constructor(
+    private world: World,
+    private clock: WorldClock,
+  ) {
+    this.query = world.createQuery([Schedule], {
+      negativeComponentTypes: [Fixed],
+    });
+  }
+
+  run(): void {
+    const hour = this.clock.hour;
+    this.query.forEach([Schedule], (entity, schedule) => {
+      const index = schedule.entries.findIndex((entry) =>
+        isActive(entry, hour),
+      );
+      const active = index < 0 ? undefined : index;
+      if (active === schedule.active) return;
+      if (active !== undefined) {
+        this.world.remove(entity, PathPlan);
+        this.world.remove(entity, StraightWalk);
+        this.world.remove(entity, GoalPathfinding);
+        this.world.remove(entity, GoalReached);
+        this.world.remove(entity, GoalFailed);
+        this.world.set(entity, GoalArea, {
+          name: schedule.entries[active]!.area,
+        });
+      }
+      this.world.set(entity, Schedule, { ...schedule, active });
+    });
+  }
+}
+
+/**
+ * 时间（小时）是否在日程项的时间段内，start 与 end 相同时视为空时间段
+ */
+function isActive(entry: ScheduleEntry, hour: number): boolean {
+  return entry.start <= entry.end
+    ? hour >= entry.start && hour < entry.end
+    : hour >= entry.start || hour < entry.end;
+}
@@ -1,6 +1,13 @@
 import type { Query, World } from "@codehz/ecs";
 import type { SyncPass } from "@codehz/pipeline";
-import { FaceDirection, Move, Position, StraightWalk } from "../components.ts";
+import {
+  FaceDirection,
+  Fixed,
+  Move,
+  MovementProfile,
+  Position,
+  StraightWalk,
+} from "../components.ts";
 import type { GridMap } from "../map.ts";
 import type { BitSet } from "../utils/bit-set.ts";
 
@@ -13,6 +20,7 @@ import type { BitSet } from "../utils/bit-set.ts";
  * - 递减StraightWalk中的剩余距离计数
  * - 当剩余距离为0时移除StraightWalk组件
  * - 支持动态碰撞体检查，如果前方有障碍立即停止
+ * - 按实体的MovementProfile计算每一步的耗时和可通行的地块
  * 
  * 这个过程用于实现简单的直线移动，例如自动巡逻行为。
  */
@@ -24,14 +32,14 @@ export class StraightWalkPass implements SyncPass<{ colliders?: BitSet }> {
     private gridMap: GridMap,
   ) {
     this.query = world.createQuery([Position, StraightWalk], {
-      negativeComponentTypes: [Move],
+      negativeComponentTypes: [Move, Fixed],
     });
   }
 
   run({ colliders }: { colliders?: BitSet }): void {
     this.query.forEach(
-      [Position, StraightWalk],
-      (entity, pos, straightWalk) => {
+      [Position, StraightWalk, { optional: MovementProfile }],
+      (entity, pos, straightWalk, profile) => {
         const currentIdx = this.gridMap.geometry.toIndex(pos.x, pos.y);
 
         let newRemainingDistance = straightWalk.remainingDistance;
@@ -46,6 +54,7 @@ export class StraightWalkPass implements SyncPass<{ colliders?: BitSet }> {
               }
               return false;
             },
+            this.gridMap.getMovementRules(profile?.value),
           );
           if (move) {
             this.world.set(entity, Move, move);
@@ -0,0 +1,111 @@
+import type { EntityId, Query, World } from "@codehz/ecs";
+import type { SyncPass } from "@codehz/pipeline";
+import type { plugins, TeamInfo } from "@miehoukingdom/world-interface";
+import { Team, TeamScore } from "../components.ts";
+
+/**
+ * 默认的计分间隔（tick 数）
+ */
+const DEFAULT_SCORE_INTERVAL = 10;
+
+/**
+ * 队伍计分的选项
+ */
+export interface TeamPassOptions {
+  /** 计分间隔（tick 数），默认 10 */
+  interval?: number;
+  /** 得分上限，未提供时不限制 */
+  maxScore?: number;
+}
+
+/**
+ * 队伍计分处理过程
+ *
+ * 负责维护 team 插件声明的队伍及其得分。该过程会：
+ * - 为每个声明的队伍维护一个带有TeamScore组件的队伍实体（随世界一起保存）
+ * - 统计每个队伍当前的成员数量（具有Team组件的实体）
+ * - 每经过 interval 个 tick 结算一次得分：
+ *   `score = min(maxScore, score + base + multiplier * 成员数量)`
+ * - 清理不再存在于队伍列表中的队伍实体
+ *
+ * 得分只随经过的 tick 数（游戏时间）增长，与宿主调用 tick 的频率无关；
+ * 距离上次结算经过的 tick 数同样保存在TeamScore中，加载存档后继续计时。
+ * 计算结果可以通过 `info()` 获取，用于输出给渲染器的计分板。
+ */
+export class TeamPass implements SyncPass {
+  private teamQuery: Query;
+  private memberQuery: Query;
+  private scores: number[];
+
+  /**
+   * @throws {Error} interval 不是正整数时抛出
+   */
+  constructor(
+    private world: World,
+    private plugin: plugins.team.PluginInterface,
+    private options: TeamPassOptions = {},
+  ) {
+    const interval = options.interval ?? DEFAULT_SCORE_INTERVAL;
+    if (!Number.isInteger(interval) || interval < 1) {
+      throw new Error(`Invalid score interval: ${interval}`);
+    }
+    this.teamQuery = world.createQuery([TeamScore]);
+    this.memberQuery = world.createQuery([Team]);
+    this.scores = plugin.teams.map(() => 0);
+  }
+
+  run(): void {
+    const { teams } = this.plugin;
+    const members = teams.map(() => 0);
+    this.memberQuery.forEach([Team], (_entity, team) => {
+      if (team >= 0 && team < members.length) {
+        members[team]!++;
+      }
+    });
+
+    const entities = new Map<number, EntityId>();
+    const elapsed = new Map<number, number>();
+    this.teamQuery.forEach([TeamScore], (entity, state) => {
+      if (state.team >= teams.length || entities.has(state.team)) {
+        // 队伍已从插件配置中移除（或重复），清理掉对应的实体
+        this.world.delete(entity);
+        return;
+      }
+      entities.set(state.team, entity);
+      elapsed.set(state.team, state.elapsedTicks);
+      this.scores[state.team] = state.score;
+    });
+
+    const { interval = DEFAULT_SCORE_INTERVAL, maxScore = Infinity } =
+      this.options;
+    teams.forEach((team, id) => {
+      let score = entities.has(id) ? this.scores[id]! : 0;
+      let elapsedTicks = (elapsed.get(id) ?? 0) + 1;
+      if (elapsedTicks >= interval) {
+        elapsedTicks = 0;
+        score = Math.min(
+          maxScore,
+          score + team.base + team.multiplier * members[id]!,
+        );
+      }
+      this.scores[id] = score;
+      this.world.set(entities.get(id) ?? this.world.new(), TeamScore, {
+        team: id,
+        score,
+        elapsedTicks,
+      });
+    });
+  }
+
+  /**
+   * 获取所有队伍的当前信息（ID、名称、颜色、得分）
+   */
+  info(): TeamInfo[] {
+    return this.plugin.teams.map((team, id) => ({
+      id,
+      name: team.name,
+      color: team.color,
+      score: this.scores[id] ?? 0,
+    }));
+  }
+}
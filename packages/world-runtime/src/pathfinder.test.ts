@@ -0,0 +1,160 @@
+import { describe, expect, test } from "bun:test";
+import { GridGeometry } from "./geometry.ts";
+import { GridMap } from "./map.ts";
+import { HierarchicalPathfinder } from "./pathfinder.ts";
+import { Random } from "./random.ts";
+import { Direction, TileType } from "./types.ts";
+import { TypedMinHeap } from "./utils/typed-heap.ts";
+
+/**
+ * 参考实现：不分层的 Dijkstra，返回最短路径的代价，不可达时为 Infinity
+ */
+function shortestCost(map: GridMap, start: number, goal: number): number {
+  const dist = new Float64Array(map.tiles.length).fill(Infinity);
+  const heap = new TypedMinHeap();
+  dist[start] = 0;
+  heap.push(start, 0);
+  while (heap.size > 0) {
+    const current = heap.pop();
+    if (current === goal) return dist[goal]!;
+    for (const direction of map.directions) {
+      const next = map.adjacentIndex(current, direction);
+      if (next < 0) continue;
+      const cost = dist[current]! + map.getMoveCost(next, direction);
+      if (cost < dist[next]!) {
+        dist[next] = cost;
+        heap.push(next, cost);
+      }
+    }
+  }
+  return Infinity;
+}
+
+/**
+ * 沿路径移动，返回到达的格子和总代价，路径中有无法执行的一步时 end 为 -1
+ */
+function walk(map: GridMap, start: number, path: Direction[]) {
+  let end = start;
+  let cost = 0;
+  for (const direction of path) {
+    end = map.adjacentIndex(end, direction);
+    if (end < 0) return { end, cost };
+    cost += map.getMoveCost(end, direction);
+  }
+  return { end, cost };
+}
+
+function randomMap(random: Random, size: number, diagonal: boolean): GridMap {
+  const tiles = Array.from({ length: size * size }, () => {
+    const value = random.next();
+    return value < 0.25
+      ? TileType.Obstacle
+      : value < 0.4
+        ? TileType.Fast
+        : TileType.Normal;
+  });
+  return new GridMap(new GridGeometry(size, size), tiles, [], [], {
+    diagonal,
+  });
+}
+
+/**
+ * 在随机地图上比较分层寻路与 Dijkstra 的结果，返回路径代价与最短路径代价之比的最大值
+ */
+function compareWithShortest(diagonal: boolean, edits: boolean): number {
+  let worst = 1;
+  for (let seed = 0; seed < 12; seed++) {
+    const random = new Random(seed);
+    const map = randomMap(random, 40, diagonal);
+    const pathfinder = new HierarchicalPathfinder(map, 8);
+    for (let query = 0; query < 30; query++) {
+      if (edits) {
+        for (let i = 0; i < 5; i++) {
+          map.setTile(
+            random.randomInt(0, map.tiles.length),
+            random.randomSelect([
+              TileType.Obstacle,
+              TileType.Normal,
+              TileType.Fast,
+            ]),
+          );
+        }
+      }
+      const start = random.randomInt(0, map.tiles.length);
+      const goal = random.randomInt(0, map.tiles.length);
+      if (map.isObstacle(start) || map.isObstacle(goal)) continue;
+      const expected = shortestCost(map, start, goal);
+      const result = pathfinder.findPath(start, goal);
+      if (!Number.isFinite(expected)) {
+        expect(result).toBeNull();
+        continue;
+      }
+      expect(result).not.toBeNull();
+      expect(result!.complete).toBe(true);
+      const { end, cost } = walk(map, start, result!.path);
+      expect(end).toBe(goal);
+      if (expected > 0) worst = Math.max(worst, cost / expected);
+    }
+  }
+  return worst;
+}
+
+describe("HierarchicalPathfinder", () => {
+  test("路径有效且代价接近最短路径（4 方向）", () => {
+    expect(compareWithShortest(false, false)).toBeLessThanOrEqual(1.05);
+  });
+
+  test("路径有效且代价接近最短路径（8 方向）", () => {
+    expect(compareWithShortest(true, false)).toBeLessThanOrEqual(1.05);
+  });
+
+  test("修改地图后路径仍然有效且接近最短路径", () => {
+    expect(compareWithShortest(false, true)).toBeLessThanOrEqual(1.05);
+  });
+
+  test("跨越簇边界的短路径不会绕经入口节点", () => {
+    // 16x16 的空地，簇的边界在 x = 7 与 x = 8 之间，入口节点位于边界两端
+    const geometry = new GridGeometry(16, 16);
+    const map = new GridMap(geometry, new Array(256).fill(TileType.Normal));
+    const pathfinder = new HierarchicalPathfinder(map, 8);
+    const start = geometry.toIndex(6, 3);
+    const goal = geometry.toIndex(9, 3);
+    expect(pathfinder.findPath(start, goal)?.path).toEqual([
+      Direction.Right,
+      Direction.Right,
+      Direction.Right,
+    ]);
+  });
+
+  test("建墙后绕行，拆墙后恢复直线", () => {
+    const geometry = new GridGeometry(32, 32);
+    const map = new GridMap(geometry, new Array(1024).fill(TileType.Normal));
+    const pathfinder = new HierarchicalPathfinder(map, 8);
+    const start = geometry.toIndex(2, 16);
+    const goal = geometry.toIndex(29, 16);
+    expect(pathfinder.findPath(start, goal)?.path).toHaveLength(27);
+
+    const wall = Array.from({ length: 31 }, (_, y) => geometry.toIndex(16, y));
+    for (const cell of wall) map.setTile(cell, TileType.Obstacle);
+    const detour = pathfinder.findPath(start, goal);
+    expect(walk(map, start, detour!.path).end).toBe(goal);
+    expect(detour!.path.length).toBeGreaterThan(27);
+
+    for (const cell of wall) map.setTile(cell, TileType.Normal);
+    expect(pathfinder.findPath(start, goal)?.path).toHaveLength(27);
+  });
+
+  test("被墙完全隔开时返回 null", () => {
+    const geometry = new GridGeometry(32, 32);
+    const tiles = Array.from({ length: 1024 }, (_, index) =>
+      index % 32 === 16 ? TileType.Obstacle : TileType.Normal,
+    );
+    const pathfinder = new HierarchicalPathfinder(
+      new GridMap(geometry, tiles),
+      8,
+    );
+    const start = geometry.toIndex(2, 16);
+    const goal = geometry.toIndex(29, 16);
+    expect(pathfinder.findPath(start, goal)).toBeNull();
+  });
+});
@@ -0,0 +1,884 @@
+import type { GridMap, MovementRules } from "./map.ts";
+import { Direction } from "./types.ts";
+import MinHeap from "./utils/min-heap.ts";
+import { TypedMinHeap } from "./utils/typed-heap.ts";
+
+/**
+ * 入口宽度达到该值时，在入口两端各放置一个抽象节点，否则只在中间放置一个
+ */
+const MAX_ENTRANCE_WIDTH = 6;
+/**
+ * 路径缓存的最大条目数（LRU）
+ */
+const CACHE_CAPACITY = 256;
+/**
+ * 抽象路径中表示“直接前往目标”的下一跳
+ */
+const GOAL = -1;
+/**
+ * 查找最近候选格子时最多展开的格子数
+ */
+const NEAREST_SEARCH_LIMIT = 4096;
+
+const DYNAMIC_OBSTACLE_NEAR_THRESHOLD = 1;
+const DYNAMIC_OBSTACLE_BASE_EXTRA_COST = 20;
+
+/**
+ * 寻路统计信息
+ */
+export interface PathfinderStats {
+  /** 寻路请求次数 */
+  searches: number;
+  /** 命中路径缓存的次数 */
+  cacheHits: number;
+  /** 未命中路径缓存、需要搜索抽象图的次数 */
+  cacheMisses: number;
+  /** 格子级搜索展开的节点数 */
+  nodesExpanded: number;
+  /** 抽象图搜索展开的节点数 */
+  abstractNodesExpanded: number;
+}
+
+/**
+ * 寻路结果
+ */
+export interface PathResult {
+  /** 路径的方向序列 */
+  path: Direction[];
+  /** 执行完路径后所在的格子 */
+  end: number;
+  /** 是否到达目标，false 表示目标附近被动态障碍占据，只返回了尽量接近目标的路径 */
+  complete: boolean;
+}
+
+interface CacheEntry {
+  /** 抽象节点到目标的代价 */
+  dist: Map<number, number>;
+  /** 抽象节点前往目标的下一跳，GOAL 表示直接前往目标 */
+  next: Map<number, number>;
+}
+
+function emptyStats(): PathfinderStats {
+  return {
+    searches: 0,
+    cacheHits: 0,
+    cacheMisses: 0,
+    nodesExpanded: 0,
+    abstractNodesExpanded: 0,
+  };
+}
+
+/**
+ * 分层寻路器（HPA*）
+ *
+ * 把地图按 `clusterSize` 划分为若干簇，在相邻簇之间的可通行边界上放置入口节点，
+ * 传送门的终点也作为节点，簇内节点之间预先计算代价，组成一张很小的抽象图：
+ * - 起点和目标的簇相同或相邻时，直接在整张地图上用 A* 搜索
+ * - 否则先在起点所在的簇内搜索到达各节点的代价，再结合抽象图上各节点到目标的代价选出最优出口
+ * - 抽象图上到目标的代价按（起点簇，目标）缓存，同一簇内前往同一目标的实体可以直接复用
+ * - 最后在抽象路径经过的簇及其相邻簇组成的走廊内用 A* 细化出格子路径
+ *
+ * 走廊内的细化保证路径不会比逐段连接入口节点更长，在随机地图上与完整 A* 的最短路径相比，
+ * 绝大多数路径的代价相同，最坏的情况也只长几个百分点，而搜索只限于走廊，节点数少得多。
+ * 格子级搜索使用预先分配的类型化数组作为缓冲区，不会为每次搜索分配 Map。
+ * 地图格子或传送门变化时（通过 GridMap.onChange 自动监听）只会重建受影响的簇。
+ */
+export class HierarchicalPathfinder {
+  readonly clustersX: number;
+  readonly clustersY: number;
+
+  private readonly width: number;
+  private readonly height: number;
+
+  // 格子级搜索的缓冲区，通过 generation 标记区分不同的搜索，无需每次清空
+  private gScore: Float64Array;
+  private parent: Int32Array;
+  private parentDir: Uint8Array;
+  private visited: Uint32Array;
+  private closed: Uint32Array;
+  private generation = 0;
+  private heap = new TypedMinHeap();
+  private minCost = 1;
+  private minDiagonalCost = 1;
+  /** 每个格子上次看到的地块，用于增量维护 tileCounts */
+  private tiles: Int32Array;
+  /** 各地块的格子数，启发函数使用的最小代价只取决于地图上出现的地块 */
+  private tileCounts: number[] = [];
+
+  /** 每个格子是否为抽象节点 */
+  private nodeFlags: Uint8Array;
+  /** 边界（簇索引 * 2 + 0 右边界 / 1 下边界）上的入口节点 */
+  private borderNodes = new Map<number, number[]>();
+  /** 每个簇内的抽象节点（按格子索引排序） */
+  private clusterNodes: number[][] = [];
+  /** 抽象图的边：节点 -> (节点 -> 代价) */
+  private edges = new Map<number, Map<number, number>>();
+  /** 反向边，按需从 edges 构建 */
+  private reverse?: Map<number, Map<number, number>>;
+  private cache = new Map<string, CacheEntry>();
+  private current = emptyStats();
+
+  /**
+   * @param map 地图
+   * @param clusterSize 簇的边长（格子数）
+   * @param rules 移动规则（见 GridMap.getMovementRules），未提供时使用地图默认的通行性和代价
+   */
+  constructor(
+    private map: GridMap,
+    readonly clusterSize = 16,
+    readonly rules?: MovementRules,
+  ) {
+    if (!Number.isInteger(clusterSize) || clusterSize < 2) {
+      throw new Error(`Invalid cluster size: ${clusterSize}`);
+    }
+    const { width, height } = map.geometry;
+    this.width = width;
+    this.height = height;
+    this.clustersX = Math.ceil(width / clusterSize);
+    this.clustersY = Math.ceil(height / clusterSize);
+    const size = width * height;
+    this.gScore = new Float64Array(size);
+    this.parent = new Int32Array(size);
+    this.parentDir = new Uint8Array(size);
+    this.visited = new Uint32Array(size);
+    this.closed = new Uint32Array(size);
+    this.nodeFlags = new Uint8Array(size);
+    this.tiles = Int32Array.from(map.tiles);
+    for (const tile of this.tiles) {
+      this.tileCounts[tile] = (this.tileCounts[tile] ?? 0) + 1;
+    }
+    this.updateMinCosts();
+    this.rebuild(
+      new Set(
+        Array.from({ length: this.clustersX * this.clustersY }, (_, i) => i),
+      ),
+    );
+    this.current = emptyStats();
+    map.onChange((change) => this.invalidate(change.cells));
+  }
+
+  /**
+   * 当前统计周期内的统计信息
+   */
+  get stats(): Readonly<PathfinderStats> {
+    return this.current;
+  }
+
+  /**
+   * 返回当前统计周期的统计信息并开始新的周期
+   */
+  takeStats(): PathfinderStats {
+    const stats = this.current;
+    this.current = emptyStats();
+    return stats;
+  }
+
+  /**
+   * 获取格子所属的簇索引
+   */
+  clusterOf(index: number): number {
+    const x = index % this.width;
+    const y = (index - x) / this.width;
+    return (
+      Math.floor(y / this.clusterSize) * this.clustersX +
+      Math.floor(x / this.clusterSize)
+    );
+  }
+
+  /**
+   * 格子的通行性、代价或传送门发生变化后调用，重建受影响的簇并清空路径缓存。
+   * 通过 GridMap 的修改方法产生的变化会自动调用
+   *
+   * @param indices 发生变化的格子（传送门变化时传入起点和终点）
+   */
+  invalidate(indices: Iterable<number>): void {
+    const clusters = new Set<number>();
+    let tilesChanged = false;
+    for (const index of indices) {
+      clusters.add(this.clusterOf(index));
+      const tile = this.map.tiles[index]!;
+      const previous = this.tiles[index]!;
+      if (tile === previous) continue;
+      this.tileCounts[previous]!--;
+      this.tileCounts[tile] = (this.tileCounts[tile] ?? 0) + 1;
+      this.tiles[index] = tile;
+      tilesChanged = true;
+    }
+    if (tilesChanged) this.updateMinCosts();
+    if (clusters.size > 0) this.rebuild(clusters);
+  }
+
+  /**
+   * 计算从起点到目标的路径
+   *
+   * @param dynamicCheck 动态障碍检查，被占据的格子会增加代价，目标附近被占据的格子不可通行
+   * @returns 路径，目标不可达时返回 null
+   */
+  findPath(
+    start: number,
+    goal: number,
+    dynamicCheck?: (idx: number) => boolean,
+  ): PathResult | null {
+    this.current.searches++;
+    if (start === goal) return { path: [], end: start, complete: true };
+    if (!this.walkable(goal) || !this.islandsConnected(start, goal)) {
+      return null;
+    }
+    const startCluster = this.clusterOf(start);
+    const goalCluster = this.clusterOf(goal);
+    // 起点和目标的簇相同或相邻时直接用 A* 搜索，避免绕经入口节点
+    if (this.near(startCluster, goalCluster)) {
+      return this.strip(
+        this.route(start, goal, undefined, goal, dynamicCheck, true),
+      );
+    }
+    const local = this.explore(start, startCluster, goal);
+    const entry = this.lookup(startCluster, goal);
+
+    let best = local.get(goal) ?? Infinity;
+    let exit = GOAL;
+    for (const [node, cost] of local) {
+      const rest = entry.dist.get(node);
+      if (rest !== undefined && cost + rest < best) {
+        best = cost + rest;
+        exit = node;
+      }
+    }
+    if (!Number.isFinite(best)) return null;
+
+    // 抽象路径经过的簇及其相邻的簇组成走廊，在走廊内用 A* 一次细化出完整的格子路径，
+    // 得到的路径不会比逐段连接入口节点更长，还能抄近路绕开入口节点
+    const corridor = new Set<number>();
+    const widen = (cluster: number) => {
+      corridor.add(cluster);
+      for (const neighbor of this.neighborClusters(cluster)) {
+        corridor.add(neighbor);
+      }
+    };
+    widen(startCluster);
+    widen(goalCluster);
+    for (let node = exit; node !== GOAL; node = entry.next.get(node)!) {
+      widen(this.clusterOf(node));
+    }
+    return this.strip(
+      this.route(start, goal, corridor, goal, dynamicCheck, true),
+    );
+  }
+
+  /**
+   * 在候选格子中找出从起点出发移动代价最小的一个，优先选择没有被占据的格子
+   *
+   * 从起点做有限的 Dijkstra 搜索（经过传送门和单向地块的规则与 findPath 一致）；
+   * 超出搜索范围时，在可能连通的候选格子中按代价下界选择
+   *
+   * @param occupied 格子是否被占据，被占据的格子仍然可以经过
+   * @returns 最近的格子，没有能到达的候选格子时返回 -1
+   */
+  findNearest(
+    start: number,
+    candidates: Iterable<number>,
+    occupied?: (idx: number) => boolean,
+  ): number {
+    this.current.searches++;
+    const free = new Set<number>();
+    const taken = new Set<number>();
+    for (const cell of candidates) {
+      if (
+        cell !== start &&
+        (!this.walkable(cell) || !this.islandsConnected(start, cell))
+      ) {
+        continue;
+      }
+      (occupied?.(cell) ? taken : free).add(cell);
+    }
+    if (free.has(start)) return start;
+    if (free.size === 0 && taken.size === 0) return -1;
+
+    const { gScore, visited, closed, heap } = this;
+    const generation = this.nextGeneration();
+    gScore[start] = 0;
+    visited[start] = generation;
+    heap.push(start, 0);
+    let nearestTaken = -1;
+    let expanded = 0;
+    while (heap.size > 0 && expanded < NEAREST_SEARCH_LIMIT) {
+      const current = heap.pop();
+      if (closed[current] === generation) continue;
+      closed[current] = generation;
+      expanded++;
+      this.current.nodesExpanded++;
+      if (free.has(current)) return current;
+      if (nearestTaken < 0 && taken.has(current)) nearestTaken = current;
+      const g = gScore[current]!;
+      for (const direction of this.map.directions) {
+        const adjacent = this.adjacent(current, direction);
+        if (adjacent < 0) continue;
+        const landing = this.landing(adjacent, direction);
+        if (landing < 0) continue;
+        const cost = g + this.map.getMoveCost(adjacent, direction, this.rules);
+        if (visited[landing] !== generation || cost < gScore[landing]!) {
+          visited[landing] = generation;
+          gScore[landing] = cost;
+          heap.push(landing, cost);
+        }
+      }
+    }
+    // 搜索完所有能到达的格子：没有空闲的候选格子
+    if (heap.size === 0) return nearestTaken;
+
+    const pick = (cells: Set<number>) => {
+      let best = -1;
+      let bestCost = Infinity;
+      const sx = start % this.width;
+      const sy = (start - sx) / this.width;
+      for (const cell of cells) {
+        const x = cell % this.width;
+        const y = (cell - x) / this.width;
+        const cost = this.lowerBound(Math.abs(x - sx), Math.abs(y - sy));
+        if (cost < bestCost) {
+          best = cell;
+          bestCost = cost;
+        }
+      }
+      return best;
+    };
+    if (free.size > 0) return pick(free);
+    return nearestTaken >= 0 ? nearestTaken : pick(taken);
+  }
+
+  /**
+   * 根据岛屿和传送门路径快速判断两个格子是否可能连通
+   */
+  private islandsConnected(start: number, goal: number): boolean {
+    // 能进入障碍的移动规则下，地图的岛屿划分不再适用
+    if (this.rules?.extendsPassability) return true;
+    const startIsland = this.map.islandIndex[start];
+    const goalIsland = this.map.islandIndex[goal];
+    if (startIsland === undefined || startIsland < 0) return false;
+    if (startIsland === goalIsland) return true;
+    const exits = this.map.islandPortalExits.get(goalIsland!) ?? [];
+    for (const entry of this.map.islandPortalEntries.get(startIsland) ?? []) {
+      const paths = this.map.portalPaths.get(entry);
+      if (paths && exits.some((exit) => paths.has(exit))) return true;
+    }
+    return false;
+  }
+
+  /**
+   * 根据地图上出现的地块重新计算启发函数使用的最小直线和斜向代价
+   */
+  private updateMinCosts(): void {
+    this.minCost = Infinity;
+    this.minDiagonalCost = Infinity;
+    this.tileCounts.forEach((count, tile) => {
+      if (count === 0) return;
+      const cost = this.map.getTileMoveCost(tile, Direction.Up, this.rules);
+      if (cost < this.minCost) this.minCost = cost;
+      const diagonal = this.map.getTileMoveCost(
+        tile,
+        Direction.UpLeft,
+        this.rules,
+      );
+      if (diagonal < this.minDiagonalCost) this.minDiagonalCost = diagonal;
+    });
+    if (!Number.isFinite(this.minCost)) this.minCost = 1;
+    if (!Number.isFinite(this.minDiagonalCost)) this.minDiagonalCost = 1;
+  }
+
+  private rebuild(dirty: Set<number>): void {
+    for (const cluster of dirty) {
+      for (const border of this.bordersOf(cluster)) {
+        this.borderNodes.set(border, this.findEntrances(border));
+      }
+    }
+
+    const nodes = new Set<number>();
+    for (const portal of this.map.portals) {
+      if (this.walkable(portal.to)) nodes.add(portal.to);
+    }
+    for (const cells of this.borderNodes.values()) {
+      for (const cell of cells) nodes.add(cell);
+    }
+
+    // 移除不再是节点的格子以及指向它们的边
+    for (const node of this.edges.keys()) {
+      if (!nodes.has(node)) {
+        this.edges.delete(node);
+        this.nodeFlags[node] = 0;
+      }
+    }
+    for (const targets of this.edges.values()) {
+      for (const target of targets.keys()) {
+        if (!nodes.has(target)) targets.delete(target);
+      }
+    }
+
+    const affected = new Set<number>();
+    for (const cluster of dirty) {
+      affected.add(cluster);
+      for (const neighbor of this.neighborClusters(cluster)) {
+        affected.add(neighbor);
+      }
+    }
+    this.clusterNodes = Array.from(
+      { length: this.clustersX * this.clustersY },
+      () => [],
+    );
+    for (const node of [...nodes].sort((a, b) => a - b)) {
+      this.nodeFlags[node] = 1;
+      this.clusterNodes[this.clusterOf(node)]!.push(node);
+      if (!this.edges.has(node)) affected.add(this.clusterOf(node));
+    }
+    // 新出现的传送门终点节点，需要重建能通过传送门到达它的簇
+    for (const portal of this.map.portals) {
+      if (
+        nodes.has(portal.to) &&
+        !this.edges.has(portal.to) &&
+        portal.from >= 0 &&
+        portal.from < this.nodeFlags.length
+      ) {
+        const cluster = this.clusterOf(portal.from);
+        affected.add(cluster);
+        for (const neighbor of this.neighborClusters(cluster)) {
+          affected.add(neighbor);
+        }
+      }
+    }
+    for (const cluster of affected) {
+      for (const node of this.clusterNodes[cluster]!) {
+        this.edges.set(node, this.explore(node, cluster));
+      }
+    }
+
+    this.reverse = undefined;
+    this.cache.clear();
+  }
+
+  private bordersOf(cluster: number): number[] {
+    const cx = cluster % this.clustersX;
+    const cy = (cluster - cx) / this.clustersX;
+    const borders: number[] = [];
+    if (cx + 1 < this.clustersX) borders.push(cluster * 2);
+    if (cx > 0) borders.push((cluster - 1) * 2);
+    if (cy + 1 < this.clustersY) borders.push(cluster * 2 + 1);
+    if (cy > 0) borders.push((cluster - this.clustersX) * 2 + 1);
+    return borders;
+  }
+
+  private neighborClusters(cluster: number): number[] {
+    const cx = cluster % this.clustersX;
+    const cy = (cluster - cx) / this.clustersX;
+    const neighbors: number[] = [];
+    if (cx > 0) neighbors.push(cluster - 1);
+    if (cx + 1 < this.clustersX) neighbors.push(cluster + 1);
+    if (cy > 0) neighbors.push(cluster - this.clustersX);
+    if (cy + 1 < this.clustersY) neighbors.push(cluster + this.clustersX);
+    return neighbors;
+  }
+
+  /**
+   * 扫描边界上两侧都可通行的连续区段，为每个区段放置入口节点。
+   *
+   * 同一区段内的格子还要求跨越边界的方向相同（存在限制进入方向的地块时），
+   * 并且两侧都能沿区段双向移动，保证区段内任意位置的跨越都可以改为经过入口节点。
+   */
+  private findEntrances(border: number): number[] {
+    const cluster = border >> 1;
+    const cx = cluster % this.clustersX;
+    const cy = (cluster - cx) / this.clustersX;
+    const size = this.clusterSize;
+    const vertical = (border & 1) === 0;
+    // vertical: 右边界，x 固定，沿 y 扫描；否则为下边界，y 固定，沿 x 扫描
+    const fixed = vertical ? (cx + 1) * size - 1 : (cy + 1) * size - 1;
+    const begin = vertical ? cy * size : cx * size;
+    const end = Math.min(begin + size, vertical ? this.height : this.width);
+    const pair = (i: number): [number, number] =>
+      vertical
+        ? [i * this.width + fixed, i * this.width + fixed + 1]
+        : [fixed * this.width + i, (fixed + 1) * this.width + i];
+
+    const [across, back] = vertical
+      ? [Direction.Right, Direction.Left]
+      : [Direction.Down, Direction.Up];
+    const [along, reverse] = vertical
+      ? [Direction.Down, Direction.Up]
+      : [Direction.Right, Direction.Left];
+    // 跨越边界的方式：0 不可跨越，1 只能正向，2 只能反向，3 双向
+    const crossing = (i: number) => {
+      const [a, b] = pair(i);
+      if (!this.walkable(a) || !this.walkable(b)) return 0;
+      return (
+        (this.map.canEnter(b, across) ? 1 : 0) |
+        (this.map.canEnter(a, back) ? 2 : 0)
+      );
+    };
+    // 与上一个位置在两侧都能双向移动（经过传送门起点会被传送走，因此也不算）
+    const linked = (i: number) => {
+      const previous = pair(i - 1);
+      return pair(i).every(
+        (cell, side) =>
+          !this.map.portalsByFrom.has(cell) &&
+          !this.map.portalsByFrom.has(previous[side]!) &&
+          this.map.canEnter(cell, along) &&
+          this.map.canEnter(previous[side]!, reverse),
+      );
+    };
+
+    const cells: number[] = [];
+    const emit = (first: number, last: number) => {
+      if (last - first + 1 >= MAX_ENTRANCE_WIDTH) {
+        cells.push(...pair(first), ...pair(last));
+      } else {
+        cells.push(...pair((first + last) >> 1));
+      }
+    };
+    let runStart = -1;
+    let runCrossing = 0;
+    for (let i = begin; i < end; i++) {
+      const current = crossing(i);
+      if (runStart >= 0 && (current !== runCrossing || !linked(i))) {
+        emit(runStart, i - 1);
+        runStart = -1;
+      }
+      if (current !== 0 && runStart < 0) {
+        runStart = i;
+        runCrossing = current;
+      }
+    }
+    if (runStart >= 0) emit(runStart, end - 1);
+    return cells;
+  }
+
+  /**
+   * 两个簇是否相同或相邻（包括斜向相邻）
+   */
+  private near(a: number, b: number): boolean {
+    const ax = a % this.clustersX;
+    const bx = b % this.clustersX;
+    return (
+      Math.abs(ax - bx) <= 1 &&
+      Math.abs((a - ax) / this.clustersX - (b - bx) / this.clustersX) <= 1
+    );
+  }
+
+  private strip(result: (PathResult & { cost: number }) | null) {
+    if (!result) return null;
+    const { path, end, complete } = result;
+    return { path, end, complete };
+  }
+
+  private walkable(index: number): boolean {
+    return (
+      index >= 0 &&
+      index < this.nodeFlags.length &&
+      this.map.isPassable(index, this.rules) &&
+      Number.isFinite(this.map.getMoveCost(index, Direction.Up, this.rules))
+    );
+  }
+
+  /**
+   * 沿方向移动一步进入的格子，越界、不可通行或斜向穿过拐角时返回 -1
+   */
+  private adjacent(index: number, direction: Direction): number {
+    const next = this.map.adjacentIndex(index, direction, this.rules);
+    return next >= 0 && this.walkable(next) ? next : -1;
+  }
+
+  /**
+   * 沿方向进入格子后最终到达的格子（与 GridMap.generateMove 的传送规则一致），
+   * 传送门终点无效时返回 -1
+   */
+  private landing(adjacent: number, direction: Direction): number {
+    const portals = this.map.portalsByFrom.get(adjacent);
+    if (portals) {
+      for (const portal of portals) {
+        if (portal.direction === undefined || portal.direction === direction) {
+          return portal.to >= 0 && portal.to < this.nodeFlags.length
+            ? portal.to
+            : -1;
+        }
+      }
+    }
+    return adjacent;
+  }
+
+  private manhattan(a: number, b: number): number {
+    const ax = a % this.width;
+    const bx = b % this.width;
+    return (
+      Math.abs(ax - bx) +
+      Math.abs((a - ax) / this.width - (b - bx) / this.width)
+    );
+  }
+
+  /**
+   * 横向、纵向分别相距 dx、dy 个格子时代价的下界
+   * （4 方向为曼哈顿距离，8 方向为 Octile 距离，乘以最小的格子代价）
+   */
+  private lowerBound(dx: number, dy: number): number {
+    if (!this.map.diagonal) return (dx + dy) * this.minCost;
+    const diagonal = Math.min(dx, dy);
+    return (
+      diagonal * this.minDiagonalCost + (dx + dy - 2 * diagonal) * this.minCost
+    );
+  }
+
+  private nextGeneration(): number {
+    if (++this.generation === 0xffffffff) {
+      this.visited.fill(0);
+      this.closed.fill(0);
+      this.generation = 1;
+    }
+    this.heap.clear();
+    return this.generation;
+  }
+
+  /**
+   * 在簇内从 source 出发做 Dijkstra 搜索，返回能到达的抽象节点（以及 extraTarget）及其代价。
+   * 搜索不会进入其他簇，但会记录离开簇时直接到达的节点（相邻簇的入口节点或传送门终点）。
+   */
+  private explore(
+    source: number,
+    cluster: number,
+    extraTarget = -1,
+  ): Map<number, number> {
+    const { gScore, visited, closed, heap } = this;
+    const generation = this.nextGeneration();
+    const outside = new Map<number, number>();
+    gScore[source] = 0;
+    visited[source] = generation;
+    heap.push(source, 0);
+    while (heap.size > 0) {
+      const current = heap.pop();
+      if (closed[current] === generation) continue;
+      closed[current] = generation;
+      this.current.nodesExpanded++;
+      const g = gScore[current]!;
+      for (const direction of this.map.directions) {
+        const adjacent = this.adjacent(current, direction);
+        if (adjacent < 0) continue;
+        const landing = this.landing(adjacent, direction);
+        if (landing < 0) continue;
+        const cost = g + this.map.getMoveCost(adjacent, direction, this.rules);
+        if (this.clusterOf(landing) === cluster) {
+          if (visited[landing] !== generation || cost < gScore[landing]!) {
+            visited[landing] = generation;
+            gScore[landing] = cost;
+            heap.push(landing, cost);
+          }
+        } else if (this.nodeFlags[landing] || landing === extraTarget) {
+          if (!((outside.get(landing) ?? Infinity) <= cost)) {
+            outside.set(landing, cost);
+          }
+        }
+      }
+    }
+
+    const found = new Map<number, number>();
+    const inside = [...this.clusterNodes[cluster]!];
+    if (extraTarget >= 0 && this.clusterOf(extraTarget) === cluster) {
+      inside.push(extraTarget);
+    }
+    for (const node of inside) {
+      if (node !== source && closed[node] === generation) {
+        found.set(node, gScore[node]!);
+      }
+    }
+    for (const node of [...outside.keys()].sort((a, b) => a - b)) {
+      found.set(node, outside.get(node)!);
+    }
+    return found;
+  }
+
+  /**
+   * 用 A* 搜索从 start 到 target 的格子路径
+   *
+   * @param clusters 搜索范围，只会经过这些簇内的格子（target 可以位于范围外），未提供时不限制
+   * @param goal 最终目标，用于判断动态障碍是否位于目标附近
+   * @param partial 无法到达时是否返回尽量接近 target 的路径
+   */
+  private route(
+    start: number,
+    target: number,
+    clusters: ReadonlySet<number> | undefined,
+    goal: number,
+    dynamicCheck: ((idx: number) => boolean) | undefined,
+    partial: boolean,
+  ): (PathResult & { cost: number }) | null {
+    const { gScore, parent, parentDir, visited, closed, heap } = this;
+    const generation = this.nextGeneration();
+    const tx = target % this.width;
+    const ty = (target - tx) / this.width;
+    const heuristic = (index: number) => {
+      const x = index % this.width;
+      const y = (index - x) / this.width;
+      return this.lowerBound(Math.abs(x - tx), Math.abs(y - ty));
+    };
+    gScore[start] = 0;
+    visited[start] = generation;
+    heap.push(start, heuristic(start));
+    let best = -1;
+    let bestF = Infinity;
+    while (heap.size > 0) {
+      const current = heap.pop();
+      if (closed[current] === generation) continue;
+      closed[current] = generation;
+      this.current.nodesExpanded++;
+      if (current === target) {
+        return this.reconstruct(start, current, true);
+      }
+      const g = gScore[current]!;
+      const f = g + heuristic(current);
+      if (current !== start && f < bestF) {
+        best = current;
+        bestF = f;
+      }
+      for (const direction of this.map.directions) {
+        const adjacent = this.adjacent(current, direction);
+        if (adjacent < 0) continue;
+        const landing = this.landing(adjacent, direction);
+        if (landing < 0 || closed[landing] === generation) continue;
+        if (
+          landing !== target &&
+          clusters &&
+          !clusters.has(this.clusterOf(landing))
+        ) {
+          continue;
+        }
+        let extraCost = 0;
+        if (dynamicCheck?.(adjacent)) {
+          const dist = this.manhattan(adjacent, goal);
+          if (dist <= DYNAMIC_OBSTACLE_NEAR_THRESHOLD) continue;
+          extraCost =
+            DYNAMIC_OBSTACLE_BASE_EXTRA_COST *
+            (DYNAMIC_OBSTACLE_NEAR_THRESHOLD / dist);
+        }
+        const cost =
+          g + this.map.getMoveCost(adjacent, direction, this.rules) + extraCost;
+        if (visited[landing] !== generation || cost < gScore[landing]!) {
+          visited[landing] = generation;
+          gScore[landing] = cost;
+          parent[landing] = current;
+          parentDir[landing] = direction;
+          heap.push(landing, cost + heuristic(landing));
+        }
+      }
+    }
+    if (partial && best >= 0) return this.reconstruct(start, best, false);
+    return null;
+  }
+
+  private reconstruct(
+    start: number,
+    end: number,
+    complete: boolean,
+  ): PathResult & { cost: number } {
+    const path: Direction[] = [];
+    for (
+      let current = end;
+      current !== start;
+      current = this.parent[current]!
+    ) {
+      path.push(this.parentDir[current]! as Direction);
+    }
+    path.reverse();
+    return { path, end, complete, cost: this.gScore[end]! };
+  }
+
+  private lookup(startCluster: number, goal: number): CacheEntry {
+    const key = `${startCluster}:${goal}`;
+    let entry = this.cache.get(key);
+    if (entry) {
+      this.current.cacheHits++;
+      // 移到末尾，保持 LRU 顺序
+      this.cache.delete(key);
+      this.cache.set(key, entry);
+      return entry;
+    }
+    this.current.cacheMisses++;
+    entry = this.searchAbstract(startCluster, goal);
+    this.cache.set(key, entry);
+    if (this.cache.size > CACHE_CAPACITY) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    return entry;
+  }
+
+  /**
+   * 在抽象图上从目标反向进行 A* 搜索，直到起点簇内的节点及其出口都已确定到目标的代价
+   */
+  private searchAbstract(startCluster: number, goal: number): CacheEntry {
+    const dist = new Map<number, number>();
+    const next = new Map<number, number>();
+    const heap = new MinHeap();
+    // 以到起点簇矩形的距离下界作为启发函数（传送门会破坏其一致性，有传送门时退化为 Dijkstra）
+    const size = this.clusterSize;
+    const left = (startCluster % this.clustersX) * size;
+    const top = Math.floor(startCluster / this.clustersX) * size;
+    const heuristic = (node: number) => {
+      if (this.map.portals.length > 0) return 0;
+      const x = node % this.width;
+      const y = (node - x) / this.width;
+      const dx = Math.max(0, left - x, x - (left + size - 1));
+      const dy = Math.max(0, top - y, y - (top + size - 1));
+      return this.lowerBound(dx, dy);
+    };
+    const relax = (node: number, cost: number, hop: number) => {
+      if (cost < (dist.get(node) ?? Infinity)) {
+        dist.set(node, cost);
+        next.set(node, hop);
+        heap.decreasePriority(node, cost + heuristic(node));
+      }
+    };
+
+    // 把目标连接到抽象图
+    const goalCluster = this.clusterOf(goal);
+    const clusters = new Set([goalCluster]);
+    if (this.nodeFlags[goal]) relax(goal, 0, GOAL);
+    for (const node of this.clusterNodes[goalCluster]!) {
+      if (node === goal) continue;
+      const result = this.route(node, goal, clusters, goal, undefined, false);
+      if (result) relax(node, result.cost, GOAL);
+    }
+
+    // 没有传送门时，与目标不在同一岛屿的节点不可能到达目标，无需等待它们
+    const island = this.map.islandIndex[goal];
+    const relevant = (node: number) =>
+      this.map.portals.length > 0 ||
+      this.rules?.extendsPassability === true ||
+      this.map.islandIndex[node] === island;
+    const pending = new Set<number>();
+    for (const node of this.clusterNodes[startCluster]!) {
+      if (relevant(node)) pending.add(node);
+      for (const target of this.edges.get(node)!.keys()) {
+        if (relevant(target)) pending.add(target);
+      }
+    }
+    const reverse = this.reverseEdges();
+    const settled = new Set<number>();
+    while (heap.size > 0 && pending.size > 0) {
+      const { key: node } = heap.pop()!;
+      const cost = dist.get(node)!;
+      settled.add(node);
+      pending.delete(node);
+      this.current.abstractNodesExpanded++;
+      for (const [source, edgeCost] of reverse.get(node) ?? []) {
+        if (!settled.has(source)) relax(source, cost + edgeCost, node);
+      }
+    }
+    return { dist, next };
+  }
+
+  private reverseEdges(): Map<number, Map<number, number>> {
+    if (this.reverse) return this.reverse;
+    const reverse = new Map<number, Map<number, number>>();
+    for (const source of [...this.edges.keys()].sort((a, b) => a - b)) {
+      for (const [target, cost] of this.edges.get(source)!) {
+        let sources = reverse.get(target);
+        if (!sources) reverse.set(target, (sources = new Map()));
+        sources.set(source, cost);
+      }
+    }
+    return (this.reverse = reverse);
+  }
+}
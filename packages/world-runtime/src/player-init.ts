@@ -0,0 +1,85 @@
+import type { EntityId } from "@codehz/ecs";
+
+/**
+ * 插件在运行时的角色初始化处理器，负责把 PlayerInit 中属于该插件的字段映射为组件。
+ *
+ * 约定 PlayerInit 中属于插件的字段名与插件名称一致（例如 fixed 插件对应 `init.fixed`）。
+ */
+export interface PlayerInitPlugin<T> {
+  /**
+   * 插件名称，同时也是 PlayerInit 中对应的字段名
+   */
+  readonly name: string;
+  /**
+   * 校验插件字段，不合法时抛出异常。字段不存在时不会调用
+   */
+  validate?(value: T): void;
+  /**
+   * 将插件字段应用到实体上。
+   * 新建实体时 previous 为 undefined；已有实体仅在字段发生变化时才会调用，
+   * value 为 undefined 表示字段被移除，插件应清理自己添加的组件。
+   */
+  apply(entity: EntityId, value: T | undefined, previous: T | undefined): void;
+}
+
+/**
+ * 角色初始化插件注册表
+ *
+ * 在 setupPlayers 中使用：先对所有 PlayerInit 调用 `validate`，确认无误后再逐个 `apply`，
+ * 保证不合法的数据不会让世界处于部分更新的状态。
+ */
+export class PlayerInitRegistry {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private plugins: PlayerInitPlugin<any>[] = [];
+
+  /**
+   * 注册一个插件处理器
+   */
+  register<T>(plugin: PlayerInitPlugin<T>): this {
+    if (this.plugins.some((p) => p.name === plugin.name)) {
+      throw new Error(`Player init plugin ${plugin.name} already registered`);
+    }
+    this.plugins.push(plugin);
+    return this;
+  }
+
+  /**
+   * 校验一份 PlayerInit 中所有已注册插件的字段
+   *
+   * @throws {Error} 任意插件校验失败时抛出
+   */
+  validate(init: object): void {
+    for (const plugin of this.plugins) {
+      const value = fieldOf(init, plugin.name);
+      if (value !== undefined) {
+        plugin.validate?.(value);
+      }
+    }
+  }
+
+  /**
+   * 将 PlayerInit 应用到实体上，只有字段发生变化的插件会被调用
+   *
+   * @param entity 实体 ID
+   * @param init 新的初始化数据
+   * @param previous 上一次应用的初始化数据，新建实体时为 undefined
+   * @returns 是否有插件的字段发生了变化
+   */
+  apply(entity: EntityId, init: object, previous?: object): boolean {
+    let changed = false;
+    for (const plugin of this.plugins) {
+      const value = fieldOf(init, plugin.name);
+      const prev = previous ? fieldOf(previous, plugin.name) : undefined;
+      if (previous && JSON.stringify(value) === JSON.stringify(prev)) {
+        continue;
+      }
+      plugin.apply(entity, value, prev);
+      changed = true;
+    }
+    return changed;
+  }
+}
+
+function fieldOf(init: object, name: string): unknown {
+  return (init as Record<string, unknown>)[name];
+}
@@ -0,0 +1,85 @@
+import type { EntityId, World } from "@codehz/ecs";
+import type { plugins } from "@miehoukingdom/world-interface";
+import {
+  FaceDirection,
+  Fixed,
+  GoalPathfinding,
+  Move,
+  PathPlan,
+  Position,
+  StraightWalk,
+} from "../components.ts";
+import type { GridMap } from "../map.ts";
+import type { PlayerInitPlugin } from "../player-init.ts";
+import { Direction } from "../types.ts";
+
+/**
+ * 校验 `fixed` 插件的初始化数据是否可以放置在地图上。
+ * 坐标必须是地图范围内的整数且不能是障碍物，朝向必须是地图允许的方向（斜向只在启用了 8 方向移动的地图上有效）。
+ *
+ * @throws {Error} 数据不合法时抛出
+ */
+export function validateFixedPlacement(
+  map: GridMap,
+  props: plugins.fixed.FixedProps,
+): void {
+  const { x, y, direction } = props;
+  const { width, height } = map.geometry;
+  if (
+    !Number.isInteger(x) ||
+    !Number.isInteger(y) ||
+    !map.geometry.inBounds(x, y)
+  ) {
+    throw new Error(
+      `Fixed position (${x}, ${y}) out of bounds for grid ${width}x${height}`,
+    );
+  }
+  if (map.isObstacle(map.geometry.toIndex(x, y))) {
+    throw new Error(`Fixed position (${x}, ${y}) is an obstacle`);
+  }
+  if (!map.directions.includes(direction as number as Direction)) {
+    throw new Error(`Invalid fixed direction: ${direction}`);
+  }
+}
+
+/**
+ * 将实体固定在 `fixed` 插件指定的格子和朝向上。
+ * 会清除实体上所有进行中的移动状态，并添加 Fixed 标记使其不再参与移动/AI。
+ */
+export function applyFixedPlacement(
+  world: World,
+  map: GridMap,
+  entity: EntityId,
+  props: plugins.fixed.FixedProps,
+): void {
+  validateFixedPlacement(map, props);
+  world.set(entity, Position, { x: props.x, y: props.y });
+  world.set(entity, FaceDirection, props.direction as number as Direction);
+  world.set(entity, Fixed);
+  world.remove(entity, Move);
+  world.remove(entity, PathPlan);
+  world.remove(entity, GoalPathfinding);
+  world.remove(entity, StraightWalk);
+}
+
+/**
+ * 创建 fixed 插件的运行时处理器：
+ * - 设置 `fixed` 时把角色钉在指定格子和朝向上（修改后会重新放置）
+ * - 移除 `fixed` 时解除固定，角色从当前位置恢复正常行为
+ */
+export function createFixedPlugin(
+  world: World,
+  map: GridMap,
+): PlayerInitPlugin<plugins.fixed.FixedProps> {
+  return {
+    name: "fixed",
+    validate: (props) => validateFixedPlacement(map, props),
+    apply: (entity, props) => {
+      if (props) {
+        applyFixedPlacement(world, map, entity, props);
+      } else {
+        world.remove(entity, Fixed);
+      }
+    },
+  };
+}
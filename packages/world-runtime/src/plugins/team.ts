@@ -0,0 +1,80 @@
+import type { EntityId, World } from "@codehz/ecs";
+import type { plugins } from "@miehoukingdom/world-interface";
+import { MovementProfile, Team } from "../components.ts";
+import type { PlayerInitPlugin } from "../player-init.ts";
+
+/**
+ * 校验队伍 ID 是否存在于 team 插件声明的队伍列表中。
+ *
+ * @throws {Error} 队伍 ID 不是整数或超出 teams 列表范围时抛出
+ */
+export function validateTeamMembership(
+  plugin: plugins.team.PluginInterface,
+  team: number,
+): void {
+  if (!Number.isInteger(team) || team < 0 || team >= plugin.teams.length) {
+    throw new Error(
+      `Invalid team ${team}, expected an index in [0, ${plugin.teams.length})`,
+    );
+  }
+}
+
+/**
+ * 将实体加入指定队伍，并把队伍写入实体的MovementProfile，
+ * 使其可以进入调色板中只允许该队伍通行的地块
+ */
+export function applyTeamMembership(
+  world: World,
+  plugin: plugins.team.PluginInterface,
+  entity: EntityId,
+  team: number,
+): void {
+  validateTeamMembership(plugin, team);
+  world.set(entity, Team, team);
+  world.set(entity, MovementProfile, {
+    ...movementProfileOf(world, entity),
+    team,
+  });
+}
+
+/**
+ * 让实体退出队伍，并从MovementProfile中移除队伍（没有其他配置时移除该组件）
+ */
+function removeTeamMembership(world: World, entity: EntityId): void {
+  world.remove(entity, Team);
+  const profile = { ...movementProfileOf(world, entity) };
+  delete profile.team;
+  if (Object.keys(profile).length > 0) {
+    world.set(entity, MovementProfile, profile);
+  } else {
+    world.remove(entity, MovementProfile);
+  }
+}
+
+function movementProfileOf(world: World, entity: EntityId): MovementProfile {
+  return world.has(entity, MovementProfile)
+    ? world.get(entity, MovementProfile)
+    : {};
+}
+
+/**
+ * 创建 team 插件的运行时处理器：
+ * - 设置 `team` 时把角色加入（或转移到）对应队伍
+ * - 移除 `team` 时让角色退出队伍
+ */
+export function createTeamPlugin(
+  world: World,
+  plugin: plugins.team.PluginInterface,
+): PlayerInitPlugin<number> {
+  return {
+    name: "team",
+    validate: (team) => validateTeamMembership(plugin, team),
+    apply: (entity, team) => {
+      if (team !== undefined) {
+        applyTeamMembership(world, plugin, entity, team);
+      } else {
+        removeTeamMembership(world, entity);
+      }
+    },
+  };
+}
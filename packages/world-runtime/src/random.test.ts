@@ -0,0 +1,67 @@
+import { describe, expect, test } from "bun:test";
+import { Random } from "./random.ts";
+
+describe("Random", () => {
+  test("相同的种子产生相同的序列，不同的种子产生不同的序列", () => {
+    const sequence = (seed: number) => {
+      const random = new Random(seed);
+      return Array.from({ length: 8 }, () => random.next());
+    };
+    expect(sequence(42)).toEqual(sequence(42));
+    expect(sequence(42)).not.toEqual(sequence(43));
+    for (const value of sequence(7)) {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+
+  test("恢复状态后继续产生相同的序列", () => {
+    const random = new Random(1);
+    random.next();
+    const state = random.state;
+    const expected = [random.next(), random.next(), random.next()];
+    const restored = new Random(2);
+    restored.restore(state);
+    expect([restored.next(), restored.next(), restored.next()]).toEqual(
+      expected,
+    );
+    // state 返回副本，继续生成不会修改导出的状态
+    expect(random.state).not.toEqual(state);
+  });
+
+  test("randomInt 返回 [min, max) 范围内的整数并覆盖整个范围", () => {
+    const random = new Random(3);
+    const seen = new Set<number>();
+    for (let i = 0; i < 1000; i++) {
+      const value = random.randomInt(-2, 3);
+      expect(Number.isInteger(value)).toBe(true);
+      seen.add(value);
+    }
+    expect([...seen].sort((a, b) => a - b)).toEqual([-2, -1, 0, 1, 2]);
+  });
+
+  test("shuffle 原地打乱，结果是原数组的排列", () => {
+    const random = new Random(4);
+    const array = Array.from({ length: 20 }, (_, i) => i);
+    const shuffled = random.shuffle(array);
+    expect(shuffled).toBe(array);
+    expect([...shuffled].sort((a, b) => a - b)).toEqual(
+      Array.from({ length: 20 }, (_, i) => i),
+    );
+    expect(shuffled).not.toEqual(Array.from({ length: 20 }, (_, i) => i));
+  });
+
+  test("randomSelect 和 weightedPick", () => {
+    const random = new Random(5);
+    expect(["a", "b"]).toContain(random.randomSelect(["a", "b"]));
+    expect(() => random.randomSelect([])).toThrow(
+      "Cannot select from an empty array",
+    );
+    for (let i = 0; i < 100; i++) {
+      expect(random.weightedPick(["a", "b", "c"], [0, 1, 0])).toBe("b");
+    }
+    expect(() => random.weightedPick(["a"], [1, 2])).toThrow("same length");
+    expect(() => random.weightedPick(["a"], [-1])).toThrow("Invalid weight");
+    expect(() => random.weightedPick(["a"], [0])).toThrow("zero total weight");
+  });
+});
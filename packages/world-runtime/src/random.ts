@@ -0,0 +1,119 @@
+import type { RandomState } from "./components.ts";
+
+/**
+ * 可设定种子的伪随机数生成器（sfc32 算法）
+ *
+ * 相同的种子总会产生相同的随机序列，状态可以通过 `state` 导出并用 `restore` 恢复，
+ * 因此保存到存档后，加载并继续运行的结果与不中断运行完全一致。
+ */
+export class Random {
+  private a = 0;
+  private b = 0;
+  private c = 0;
+  private d = 0;
+
+  /**
+   * @param seed 32 位整数种子
+   */
+  constructor(seed: number) {
+    // 使用 splitmix32 把种子扩展为初始状态，避免相近的种子产生相关的序列
+    let s = seed >>> 0;
+    const splitmix32 = () => {
+      s = (s + 0x9e3779b9) | 0;
+      let z = s;
+      z = Math.imul(z ^ (z >>> 16), 0x85ebca6b);
+      z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35);
+      return (z ^ (z >>> 16)) >>> 0;
+    };
+    this.restore([splitmix32(), splitmix32(), splitmix32(), splitmix32()]);
+    // 丢弃前几个输出，让状态充分混合
+    for (let i = 0; i < 12; i++) this.next();
+  }
+
+  /**
+   * 当前状态（副本）
+   */
+  get state(): RandomState {
+    return [this.a, this.b, this.c, this.d];
+  }
+
+  /**
+   * 恢复到之前导出的状态
+   */
+  restore(state: RandomState): void {
+    [this.a, this.b, this.c, this.d] = state.map((v) => v | 0) as RandomState;
+  }
+
+  /**
+   * 返回 [0, 1) 范围内的随机浮点数
+   */
+  next(): number {
+    const t = (((this.a + this.b) | 0) + this.d) | 0;
+    this.d = (this.d + 1) | 0;
+    this.a = this.b ^ (this.b >>> 9);
+    this.b = (this.c + (this.c << 3)) | 0;
+    this.c = (this.c << 21) | (this.c >>> 11);
+    this.c = (this.c + t) | 0;
+    return (t >>> 0) / 4294967296;
+  }
+
+  /**
+   * 返回 [min, max) 范围内的随机整数
+   */
+  randomInt(min: number, max: number): number {
+    return Math.floor(this.next() * (max - min)) + min;
+  }
+
+  /**
+   * 从数组中随机选择一个元素
+   *
+   * @throws {Error} 数组为空时抛出
+   */
+  randomSelect<T>(array: readonly T[]): T {
+    if (array.length === 0) {
+      throw new Error("Cannot select from an empty array");
+    }
+    return array[this.randomInt(0, array.length)]!;
+  }
+
+  /**
+   * 原地打乱数组（Fisher-Yates），返回同一个数组
+   */
+  shuffle<T>(array: T[]): T[] {
+    for (let i = array.length - 1; i > 0; i--) {
+      const j = this.randomInt(0, i + 1);
+      [array[i], array[j]] = [array[j]!, array[i]!];
+    }
+    return array;
+  }
+
+  /**
+   * 按权重随机选择一个元素，权重为非负数，选中概率与权重成正比
+   *
+   * @throws {Error} 数组为空、长度不一致或权重之和不为正数时抛出
+   */
+  weightedPick<T>(items: readonly T[], weights: readonly number[]): T {
+    if (items.length !== weights.length) {
+      throw new Error("Items and weights must have the same length");
+    }
+    let total = 0;
+    for (const weight of weights) {
+      if (!(weight >= 0)) {
+        throw new Error(`Invalid weight: ${weight}`);
+      }
+      total += weight;
+    }
+    if (!(total > 0)) {
+      throw new Error("Cannot pick from items with zero total weight");
+    }
+    let roll = this.next() * total;
+    for (let i = 0; i < items.length; i++) {
+      roll -= weights[i]!;
+      if (roll < 0) return items[i]!;
+    }
+    // 浮点误差兜底：返回最后一个权重为正的元素
+    for (let i = items.length - 1; ; i--) {
+      if (weights[i]! > 0) return items[i]!;
+    }
+  }
+}
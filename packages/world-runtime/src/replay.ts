@@ -0,0 +1,314 @@
+import type {
+  MapStructure,
+  ScriptApi,
+  ScriptCommandMap,
+  ScriptInitOptions,
+  ScriptPlatformEventMap,
+  ScriptTickResult,
+} from "@miehoukingdom/world-interface";
+import { fnv1a32 } from "./utils/hash.ts";
+
+/**
+ * 回放文件格式版本
+ */
+const REPLAY_VERSION = 1;
+
+/**
+ * 回放中记录的输入：`setupPlayers` 调用或 `dispatch` 指令
+ */
+export type ReplayInput<PlayerInit = unknown> =
+  | { type: "setupPlayers"; players: Record<string, PlayerInit> }
+  | {
+      [K in keyof ScriptCommandMap]: {
+        type: "dispatch";
+        command: K;
+        data: ScriptCommandMap[K];
+      };
+    }[keyof ScriptCommandMap];
+
+/**
+ * 回放中记录的平台事件
+ */
+export type ReplayEvent = {
+  [K in keyof ScriptPlatformEventMap]: [
+    event: K,
+    data: ScriptPlatformEventMap[K],
+  ];
+}[keyof ScriptPlatformEventMap];
+
+/**
+ * 回放中的一个 tick
+ */
+export interface ReplayTick<PlayerInit = unknown> {
+  /** 这个 tick 之前发生的输入（按调用顺序） */
+  inputs?: ReplayInput<PlayerInit>[];
+  /** tick 结果的摘要 */
+  digest: number;
+  /** 完整的 tick 结果（录制时启用 `results` 才会记录） */
+  result?: ScriptTickResult;
+  /** 从这个 tick 开始到下一个 tick 开始之间发出的事件 */
+  events?: ReplayEvent[];
+}
+
+/**
+ * 回放数据
+ */
+export interface Replay<PlayerInit = unknown> {
+  version: typeof REPLAY_VERSION;
+  structure: MapStructure;
+  /** base64 编码的初始存档 */
+  savedData?: string;
+  seed: number;
+  extraOptions?: unknown;
+  /** 第一个 tick 之前（`create` 期间等）发出的事件 */
+  events?: ReplayEvent[];
+  ticks: ReplayTick<PlayerInit>[];
+}
+
+/**
+ * 录制选项
+ */
+export interface ReplayRecorderOptions {
+  /**
+   * 是否记录每个 tick 的完整结果，默认只记录摘要。
+   * 记录完整结果会让回放文件变大，但出现分歧时可以看到具体的差异
+   */
+  results?: boolean;
+}
+
+/**
+ * 回放中出现的第一个分歧
+ */
+export interface ReplayDivergence {
+  /** 出现分歧的 tick 序号（从 1 开始），0 表示第一个 tick 之前 */
+  tick: number;
+  kind: "result" | "events";
+  /** 录制时的结果（只记录了摘要时为摘要）或事件 */
+  expected: unknown;
+  /** 回放时的结果（只记录了摘要时为摘要）或事件 */
+  actual: unknown;
+}
+
+interface ScriptFactory<PlayerInit, ExtraOptions> {
+  create(options: ScriptInitOptions<ExtraOptions>): ScriptApi<PlayerInit>;
+}
+
+/**
+ * 计算 tick 结果的摘要
+ */
+export function digestTickResult(result: ScriptTickResult): number {
+  return fnv1a32(JSON.stringify(result));
+}
+
+/**
+ * 回放录制器，包装 ScriptApi 并记录所有输入、tick 结果和平台事件
+ *
+ * 使用 `ReplayRecorder.create` 代替入口的 `create` 创建脚本实例，之后像使用原来的
+ * ScriptApi 一样使用录制器即可。未指定种子时会生成一个随机种子并记录下来。
+ *
+ * 回放依赖脚本的确定性：异步任务（例如 AI 调用）的完成时机也必须是确定的，
+ * 否则回放时会在任务完成的 tick 出现分歧。
+ */
+export class ReplayRecorder<PlayerInit> implements ScriptApi<PlayerInit> {
+  private api!: ScriptApi<PlayerInit>;
+  private pending: ReplayInput<PlayerInit>[] = [];
+
+  private constructor(
+    private data: Replay<PlayerInit>,
+    private options: ReplayRecorderOptions,
+  ) {}
+
+  /**
+   * 创建脚本实例并开始录制
+   */
+  static create<PlayerInit, ExtraOptions>(
+    entrypoint: ScriptFactory<PlayerInit, ExtraOptions>,
+    init: ScriptInitOptions<ExtraOptions>,
+    options: ReplayRecorderOptions = {},
+  ): ReplayRecorder<PlayerInit> {
+    const seed = init.seed ?? (Math.random() * 0x100000000) >>> 0;
+    const recorder = new ReplayRecorder<PlayerInit>(
+      {
+        version: REPLAY_VERSION,
+        structure: structuredClone(init.structure),
+        savedData: init.savedData && encodeBase64(init.savedData),
+        seed,
+        extraOptions: structuredClone(init.extraOptions),
+        ticks: [],
+      },
+      options,
+    );
+    recorder.api = entrypoint.create({
+      ...init,
+      seed,
+      platform: {
+        emitEvent: (event, data) => {
+          recorder.record([event, structuredClone(data)] as ReplayEvent);
+          init.platform.emitEvent(event, data);
+        },
+      },
+    });
+    return recorder;
+  }
+
+  /**
+   * 录制的回放数据
+   */
+  get replay(): Replay<PlayerInit> {
+    return this.data;
+  }
+
+  setupPlayers(players: Record<string, PlayerInit>): void {
+    this.api.setupPlayers(players);
+    this.pending.push({
+      type: "setupPlayers",
+      players: structuredClone(players),
+    });
+  }
+
+  dispatch<K extends keyof ScriptCommandMap>(
+    command: K,
+    data: ScriptCommandMap[K],
+  ): void {
+    if (!this.api.dispatch) {
+      throw new Error("Script does not accept commands");
+    }
+    this.api.dispatch(command, data);
+    this.pending.push({
+      type: "dispatch",
+      command,
+      data: structuredClone(data),
+    } as ReplayInput<PlayerInit>);
+  }
+
+  tick(): ScriptTickResult {
+    const tick: ReplayTick<PlayerInit> = { digest: 0 };
+    if (this.pending.length) {
+      tick.inputs = this.pending;
+      this.pending = [];
+    }
+    this.data.ticks.push(tick);
+    const result = this.api.tick();
+    tick.digest = digestTickResult(result);
+    if (this.options.results) tick.result = structuredClone(result);
+    return result;
+  }
+
+  save(): Uint8Array {
+    if (!this.api.save) {
+      throw new Error("Script does not support saving");
+    }
+    return this.api.save();
+  }
+
+  private record(event: ReplayEvent) {
+    const owner = this.data.ticks.at(-1) ?? this.data;
+    (owner.events ??= []).push(event);
+  }
+}
+
+/**
+ * 把回放数据编码为回放文件内容
+ */
+export function encodeReplay(replay: Replay): string {
+  return JSON.stringify(replay);
+}
+
+/**
+ * 解析回放文件
+ *
+ * @throws {Error} 文件格式不正确或版本不支持时抛出
+ */
+export function decodeReplay<PlayerInit = unknown>(
+  text: string,
+): Replay<PlayerInit> {
+  const replay = JSON.parse(text) as Replay<PlayerInit>;
+  if (replay?.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version: ${replay?.version}`);
+  }
+  if (!Array.isArray(replay.ticks) || !replay.structure) {
+    throw new Error("Corrupted replay file");
+  }
+  return replay;
+}
+
+/**
+ * 用相同的初始状态和输入重新运行脚本，返回第一个与录制结果不一致的地方，
+ * 完全一致时返回 undefined
+ *
+ * 与宿主一样，每两个 tick 之间会让出一次事件循环，使异步任务能在 tick 之间完成。
+ */
+export async function playReplay<PlayerInit, ExtraOptions>(
+  entrypoint: ScriptFactory<PlayerInit, ExtraOptions>,
+  replay: Replay<PlayerInit>,
+): Promise<ReplayDivergence | undefined> {
+  let events: ReplayEvent[] = [];
+  const api = entrypoint.create({
+    structure: structuredClone(replay.structure),
+    savedData:
+      replay.savedData === undefined
+        ? undefined
+        : decodeBase64(replay.savedData),
+    seed: replay.seed,
+    extraOptions: structuredClone(replay.extraOptions) as ExtraOptions,
+    platform: {
+      emitEvent: (event, data) => {
+        events.push([event, structuredClone(data)] as ReplayEvent);
+      },
+    },
+  });
+  const compareEvents = (
+    tick: number,
+    expected: ReplayEvent[] = [],
+  ): ReplayDivergence | undefined => {
+    const actual = events;
+    events = [];
+    if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+      return { tick, kind: "events", expected, actual };
+    }
+  };
+  for (const [index, tick] of replay.ticks.entries()) {
+    for (const input of tick.inputs ?? []) {
+      if (input.type === "setupPlayers") {
+        api.setupPlayers(structuredClone(input.players));
+      } else if (api.dispatch) {
+        api.dispatch(input.command, structuredClone(input.data));
+      } else {
+        throw new Error("Script does not accept commands");
+      }
+    }
+    // 输入期间发出的事件与录制时一样归入上一个 tick
+    const divergence = compareEvents(
+      index,
+      index === 0 ? replay.events : replay.ticks[index - 1]!.events,
+    );
+    if (divergence) return divergence;
+    const result = api.tick();
+    const digest = digestTickResult(result);
+    if (digest !== tick.digest) {
+      return {
+        tick: index + 1,
+        kind: "result",
+        expected: tick.result ?? tick.digest,
+        actual: tick.result ? structuredClone(result) : digest,
+      };
+    }
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+  return compareEvents(
+    replay.ticks.length,
+    replay.ticks.at(-1)?.events ?? replay.events,
+  );
+}
+
+function encodeBase64(data: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < data.length; i += 0x8000) {
+    binary += String.fromCharCode(...data.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function decodeBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), (c) => c.charCodeAt(0));
+}
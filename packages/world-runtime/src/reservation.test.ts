@@ -0,0 +1,90 @@
+import { describe, expect, test } from "bun:test";
+import { GridGeometry } from "./geometry.ts";
+import { GridMap } from "./map.ts";
+import { ReservationTable } from "./reservation.ts";
+import { Direction, TileType } from "./types.ts";
+
+/**
+ * width x 1 的走廊，每步 10 个 tick
+ */
+function corridor(width: number): GridMap {
+  return new GridMap(
+    new GridGeometry(width, 1),
+    new Array(width).fill(TileType.Normal),
+  );
+}
+
+describe("ReservationTable", () => {
+  test("预约只对其他实体生效，释放后格子恢复空闲", () => {
+    const table = new ReservationTable(corridor(3));
+    table.reserve(1, 1, 10, 20);
+    expect(table.isFree(1, 0, 10, 2)).toBe(true);
+    expect(table.isFree(1, 15, 30, 2)).toBe(false);
+    expect(table.isFree(1, 15, 30, 1)).toBe(true);
+    table.release(1);
+    expect(table.isFree(1, 15, 30, 2)).toBe(true);
+  });
+
+  test("按路径计划预约，移动期间同时占用出发和目标格子", () => {
+    const table = new ReservationTable(corridor(4));
+    table.reservePlan(1, 0, [Direction.Right, { wait: 5 }, Direction.Right]);
+    expect(table.isFree(0, 0, 10, 2)).toBe(false);
+    expect(table.isFree(0, 10, 20, 2)).toBe(true);
+    expect(table.isFree(1, 0, 25, 2)).toBe(false);
+    expect(table.isFree(1, 25, 40, 2)).toBe(true);
+    expect(table.isFree(2, 0, 15, 2)).toBe(true);
+    // 计划结束后停留的格子一直占用到窗口之外
+    expect(table.isFree(2, 15, 10_000, 2)).toBe(false);
+    expect(table.isFree(3, 0, 10_000, 2)).toBe(true);
+  });
+
+  test("检测迎面交换位置", () => {
+    const table = new ReservationTable(corridor(2));
+    table.reservePlan(1, 0, [Direction.Right]);
+    expect(table.isSwap(1, 0, 0, 10, 2)).toBe(true);
+    expect(table.isSwap(1, 0, 10, 20, 2)).toBe(false);
+    expect(table.isSwap(1, 0, 0, 10, 1)).toBe(false);
+  });
+
+  test("跟在移动的实体后面时原地等待", () => {
+    const table = new ReservationTable(corridor(5));
+    table.reservePlan(1, 1, [
+      Direction.Right,
+      Direction.Right,
+      Direction.Right,
+    ]);
+    expect(table.search(2, 0, 3)).toEqual([
+      { wait: 10 },
+      Direction.Right,
+      Direction.Right,
+      Direction.Right,
+    ]);
+  });
+
+  test("被静止的实体挡住时找不到路径", () => {
+    const table = new ReservationTable(corridor(5));
+    table.reservePlan(1, 2, []);
+    expect(table.search(2, 0, 4)).toBeNull();
+    table.release(1);
+    expect(table.search(2, 0, 4)).toEqual([
+      Direction.Right,
+      Direction.Right,
+      Direction.Right,
+      Direction.Right,
+    ]);
+  });
+
+  test("有空间时绕过静止的实体", () => {
+    const geometry = new GridGeometry(3, 2);
+    const map = new GridMap(geometry, new Array(6).fill(TileType.Normal));
+    const table = new ReservationTable(map);
+    table.reservePlan(1, geometry.toIndex(1, 0), []);
+    const path = table.search(
+      2,
+      geometry.toIndex(0, 0),
+      geometry.toIndex(2, 0),
+    );
+    expect(path).toHaveLength(4);
+    expect(path).not.toContainEqual({ wait: expect.any(Number) });
+  });
+});
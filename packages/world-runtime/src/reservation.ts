@@ -0,0 +1,321 @@
+import type { Move, PathStep } from "./components.ts";
+import type { GridMap, MovementRules } from "./map.ts";
+import { Direction } from "./types.ts";
+import { TypedMinHeap } from "./utils/typed-heap.ts";
+
+/**
+ * 默认的预约时间窗口（tick）
+ */
+const DEFAULT_HORIZON = 96;
+/**
+ * 单次时空搜索最多展开的节点数
+ */
+const MAX_EXPANSIONS = 4096;
+
+/**
+ * 实体对一个格子的一段占用
+ */
+interface Reservation {
+  owner: number;
+  /** 开始占用的时间（进入该格子的移动开始时） */
+  start: number;
+  /** 结束占用的时间（离开该格子的移动完成时），停留到窗口之外时为 Infinity */
+  end: number;
+  /** 进入该格子之前所在的格子，-1 表示一开始就在该格子上 */
+  from: number;
+  /** 进入该格子的移动完成的时间 */
+  arrive: number;
+}
+
+/**
+ * 时空预约表（WHCA* 中的 reservation table）
+ *
+ * 记录每个实体在接下来的时间窗口（horizon 个 tick）内会占用哪些格子，时间以当前 tick 为 0。
+ * 实体移动时同时占用出发格子和目标格子，直到移动完成；
+ * 计划结束后停留的格子（以及静止实体所在的格子）会一直被占用到窗口之外。
+ *
+ * 新的路径通过时空 A*（search）避开已有的预约：可以绕路或原地等待，
+ * 也不会与迎面而来的实体互换位置。
+ */
+export class ReservationTable {
+  private cells = new Map<number, Reservation[]>();
+  /**
+   * 每个实体预约过的格子，用于释放预约
+   */
+  private owned = new Map<number, number[]>();
+  /**
+   * 按移动规则缓存的单步最小耗时，用于启发函数
+   */
+  private minTicks = new Map<string, number>();
+  private heap = new TypedMinHeap();
+
+  /**
+   * @param horizon 预约时间窗口（tick），超出窗口的路径部分不会预约
+   */
+  constructor(
+    private map: GridMap,
+    readonly horizon = DEFAULT_HORIZON,
+  ) {
+    map.onChange(() => this.minTicks.clear());
+  }
+
+  /**
+   * 清空所有预约
+   */
+  clear(): void {
+    this.cells.clear();
+    this.owned.clear();
+  }
+
+  /**
+   * 预约格子在 [start, end) 期间的占用
+   *
+   * @param from 进入该格子之前所在的格子，用于检测迎面交换位置
+   * @param arrive 进入该格子的移动完成的时间
+   */
+  reserve(
+    owner: number,
+    cell: number,
+    start: number,
+    end: number,
+    from = -1,
+    arrive = start,
+  ): void {
+    let reservations = this.cells.get(cell);
+    if (!reservations) this.cells.set(cell, (reservations = []));
+    reservations.push({ owner, start, end, from, arrive });
+    let owned = this.owned.get(owner);
+    if (!owned) this.owned.set(owner, (owned = []));
+    owned.push(cell);
+  }
+
+  /**
+   * 释放实体的所有预约
+   */
+  release(owner: number): void {
+    const owned = this.owned.get(owner);
+    if (!owned) return;
+    this.owned.delete(owner);
+    for (const cell of owned) {
+      const reservations = this.cells.get(cell);
+      if (!reservations) continue;
+      const rest = reservations.filter((r) => r.owner !== owner);
+      if (rest.length > 0) this.cells.set(cell, rest);
+      else this.cells.delete(cell);
+    }
+  }
+
+  /**
+   * 格子在 [start, end) 期间是否没有被其他实体占用
+   */
+  isFree(cell: number, start: number, end: number, owner: number): boolean {
+    const reservations = this.cells.get(cell);
+    if (!reservations) return true;
+    for (const r of reservations) {
+      if (r.owner !== owner && r.start < end && start < r.end) return false;
+    }
+    return true;
+  }
+
+  /**
+   * 在 [start, end) 期间从 from 移动到 to 时，是否有其他实体同时从 to 移动到 from（迎面交换位置）
+   */
+  isSwap(
+    from: number,
+    to: number,
+    start: number,
+    end: number,
+    owner: number,
+  ): boolean {
+    const reservations = this.cells.get(from);
+    if (!reservations) return false;
+    for (const r of reservations) {
+      if (
+        r.owner !== owner &&
+        r.from === to &&
+        r.start < end &&
+        start < r.arrive
+      ) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * 按路径计划预约实体将要占用的格子，超出时间窗口的部分不预约，
+   * 执行完（或窗口结束时）所在的格子会一直占用下去
+   *
+   * @param cell 实体当前所在的格子（正在移动时为出发的格子）
+   * @param steps 尚未执行的动作
+   * @param move 正在进行中的移动
+   * @param time 开始执行 steps 的时间（例如当前等待动作剩余的 tick 数）
+   */
+  reservePlan(
+    owner: number,
+    cell: number,
+    steps: readonly PathStep[],
+    rules?: MovementRules,
+    move?: Pick<Move, "targetIdx" | "remainingTicks">,
+    time = 0,
+  ): void {
+    let enter = 0;
+    let arrive = 0;
+    let from = -1;
+    if (move) {
+      this.reserve(owner, cell, 0, move.remainingTicks);
+      from = cell;
+      cell = move.targetIdx;
+      arrive = move.remainingTicks;
+      time = Math.max(time, arrive);
+    }
+    for (const step of steps) {
+      if (time >= this.horizon) break;
+      if (typeof step === "object") {
+        time += step.wait;
+        continue;
+      }
+      const next = this.map.generateMove(cell, step, undefined, rules);
+      if (!next) break;
+      const done = time + next.totalTicks;
+      this.reserve(owner, cell, enter, done, from, arrive);
+      from = cell;
+      cell = next.targetIdx;
+      enter = time;
+      arrive = done;
+      time = done;
+    }
+    this.reserve(owner, cell, enter, Infinity, from, arrive);
+  }
+
+  /**
+   * 时空 A*：在不与其他实体的预约冲突的前提下，寻找从 start 到 goal 的动作序列，
+   * 被挡住时可以原地等待，直到相邻格子上的预约结束。
+   *
+   * 实体已经站在起点上，立即出发时不检查起点格子上的预约（其他实体只能等它离开）。
+   *
+   * @param time 出发时间
+   * @returns 动作序列，无法在两倍时间窗口内到达时返回 null
+   */
+  search(
+    owner: number,
+    start: number,
+    goal: number,
+    rules?: MovementRules,
+    time = 0,
+  ): PathStep[] | null {
+    const limit = time + this.horizon * 2;
+    const span = limit + 1;
+    const minTicks = this.minMoveTicks(rules);
+    const { width } = this.map.geometry;
+    const gx = goal % width;
+    const gy = (goal - gx) / width;
+    const heuristic = (cell: number) => {
+      const x = cell % width;
+      const dx = Math.abs(x - gx);
+      const dy = Math.abs((cell - x) / width - gy);
+      return this.map.diagonal
+        ? minTicks * (Math.max(dx, dy) + (Math.SQRT2 - 1) * Math.min(dx, dy))
+        : minTicks * (dx + dy);
+    };
+
+    // 搜索节点：(格子, 时间)，steps[i] 为从父节点到达该节点的动作
+    const cells = [start];
+    const times = [time];
+    const parents = [-1];
+    const steps: (PathStep | null)[] = [null];
+    const seen = new Set<number>([start * span + time]);
+    const heap = this.heap;
+    heap.clear();
+    heap.push(0, time + heuristic(start));
+    const push = (cell: number, t: number, parent: number, step: PathStep) => {
+      const key = cell * span + t;
+      if (seen.has(key)) return;
+      seen.add(key);
+      cells.push(cell);
+      times.push(t);
+      parents.push(parent);
+      steps.push(step);
+      heap.push(cells.length - 1, t + heuristic(cell));
+    };
+
+    const neighbors: number[] = [];
+    for (let expanded = 0; heap.size > 0 && expanded < MAX_EXPANSIONS;) {
+      const node = heap.pop();
+      const cell = cells[node]!;
+      const t = times[node]!;
+      if (cell === goal) return this.reconstruct(parents, steps, node);
+      expanded++;
+      neighbors.length = 0;
+      for (const direction of this.map.directions) {
+        const move = this.map.generateMove(cell, direction, undefined, rules);
+        if (!move) continue;
+        const target = move.targetIdx;
+        const arrive = t + move.totalTicks;
+        neighbors.push(target);
+        if (
+          arrive > limit ||
+          !this.isFree(target, t, arrive, owner) ||
+          this.isSwap(cell, target, t, arrive, owner) ||
+          (node !== 0 && !this.isFree(cell, t, arrive, owner))
+        ) {
+          continue;
+        }
+        push(target, arrive, node, direction);
+      }
+      // 等到相邻格子上最早结束的预约结束，再尝试前进
+      const until = Math.min(this.nextRelease(neighbors, t, owner), limit);
+      if (until > t && this.isFree(cell, t, until, owner)) {
+        push(cell, until, node, { wait: until - t });
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 格子上其他实体的预约中，在 t 之后最早结束的时间
+   */
+  private nextRelease(cells: number[], t: number, owner: number): number {
+    let next = Infinity;
+    for (const cell of cells) {
+      for (const r of this.cells.get(cell) ?? []) {
+        if (r.owner !== owner && r.end > t && r.end < next) next = r.end;
+      }
+    }
+    return next;
+  }
+
+  private reconstruct(
+    parents: number[],
+    steps: (PathStep | null)[],
+    node: number,
+  ): PathStep[] {
+    const path: PathStep[] = [];
+    for (; parents[node]! >= 0; node = parents[node]!) {
+      const step = steps[node]!;
+      const last = path[path.length - 1];
+      // 合并连续的等待
+      if (typeof step === "object" && typeof last === "object") {
+        last.wait += step.wait;
+      } else {
+        path.push(step);
+      }
+    }
+    return path.reverse();
+  }
+
+  private minMoveTicks(rules?: MovementRules): number {
+    const key = rules?.key ?? "";
+    let min = this.minTicks.get(key);
+    if (min === undefined) {
+      min = Infinity;
+      const size = this.map.geometry.width * this.map.geometry.height;
+      for (let i = 0; i < size; i++) {
+        min = Math.min(min, this.map.getMoveCost(i, Direction.Up, rules));
+      }
+      if (!Number.isFinite(min)) min = 1;
+      this.minTicks.set(key, min);
+    }
+    return min;
+  }
+}
@@ -0,0 +1,119 @@
+import { describe, expect, test } from "bun:test";
+import type { MapStructure } from "@miehoukingdom/world-interface";
+import {
+  computeSaveFingerprint,
+  SaveDataError,
+  type SaveDataErrorReason,
+  SaveFormat,
+} from "./save.ts";
+
+const STRUCTURE: MapStructure = {
+  width: 2,
+  height: 2,
+  tiles: [1, 1, 0, 1],
+  spawnPoints: [{ x: 0, y: 0 }],
+  portals: [],
+  areas: [],
+};
+
+function expectSaveError(
+  decode: () => unknown,
+  reason: SaveDataErrorReason,
+): void {
+  try {
+    decode();
+  } catch (error) {
+    expect(error).toBeInstanceOf(SaveDataError);
+    expect((error as SaveDataError).reason).toBe(reason);
+    return;
+  }
+  throw new Error(`Expected SaveDataError (${reason})`);
+}
+
+describe("SaveFormat", () => {
+  test("编码后解码得到相同的快照", () => {
+    const format = new SaveFormat(1, 123);
+    const snapshot = { entities: [{ id: 1, name: "玩家" }], tick: 42 };
+    expect(format.decode(format.encode(snapshot))).toEqual(snapshot);
+  });
+
+  test("拒绝损坏或不匹配的存档", () => {
+    const format = new SaveFormat(2, 123);
+    const data = format.encode({ tick: 1 });
+    expectSaveError(() => format.decode(new Uint8Array([1, 2, 3])), "magic");
+    expectSaveError(() => new SaveFormat(2, 456).decode(data), "fingerprint");
+    expectSaveError(() => new SaveFormat(1, 123).decode(data), "version");
+    const corrupted = data.slice();
+    const index = corrupted.length - 2;
+    corrupted[index] = corrupted[index]! ^ 1;
+    expectSaveError(() => format.decode(corrupted), "checksum");
+    expectSaveError(() => format.decode(data.subarray(0, -1)), "payload");
+  });
+
+  test("依次执行迁移函数升级旧版本的存档", () => {
+    const old = new SaveFormat(1, 123).encode({ value: 1 });
+    const format = new SaveFormat(3, 123)
+      .registerMigration(1, (snapshot) => ({ value: snapshot.value + 1 }))
+      .registerMigration(2, (snapshot) => ({ ...snapshot, migrated: true }));
+    expect(format.decode(old)).toEqual({ value: 2, migrated: true });
+    expectSaveError(() => new SaveFormat(3, 123).decode(old), "migration");
+    expect(() => format.registerMigration(3, (snapshot) => snapshot)).toThrow(
+      "out of range",
+    );
+    expect(() => format.registerMigration(1, (snapshot) => snapshot)).toThrow(
+      "already registered",
+    );
+  });
+
+  test("旧版 JSON 存档视为版本 0，不校验指纹", () => {
+    const legacy = new TextEncoder().encode(JSON.stringify({ tick: 5 }));
+    const format = new SaveFormat(1, 123).registerMigration(0, (snapshot) => ({
+      ...snapshot,
+      legacy: true,
+    }));
+    expect(format.decode(legacy)).toEqual({ tick: 5, legacy: true });
+  });
+});
+
+describe("computeSaveFingerprint", () => {
+  test("只有影响移动的地图数据会改变指纹", () => {
+    const base = computeSaveFingerprint("script", STRUCTURE);
+    expect(computeSaveFingerprint("other", STRUCTURE)).not.toBe(base);
+    expect(
+      computeSaveFingerprint("script", {
+        ...STRUCTURE,
+        spawnPoints: [{ x: 1, y: 1 }],
+        areas: [{ name: "room", description: "", cells: [{ x: 0, y: 0 }] }],
+      }),
+    ).toBe(base);
+    expect(
+      computeSaveFingerprint("script", { ...STRUCTURE, tiles: [1, 1, 1, 1] }),
+    ).not.toBe(base);
+  });
+
+  test("8 方向移动和地块调色板参与指纹，未使用时与之前的指纹一致", () => {
+    const base = computeSaveFingerprint("script", STRUCTURE);
+    expect(
+      computeSaveFingerprint("script", {
+        ...STRUCTURE,
+        diagonal: false,
+        palette: [],
+      }),
+    ).toBe(base);
+    const diagonal = computeSaveFingerprint("script", {
+      ...STRUCTURE,
+      diagonal: true,
+    });
+    const palette = computeSaveFingerprint("script", {
+      ...STRUCTURE,
+      palette: [{ id: 3, name: "mud", cost: 20 }],
+    });
+    expect(new Set([base, diagonal, palette]).size).toBe(3);
+    expect(
+      computeSaveFingerprint("script", {
+        ...STRUCTURE,
+        palette: [{ id: 3, name: "mud", cost: 30 }],
+      }),
+    ).not.toBe(palette);
+  });
+});
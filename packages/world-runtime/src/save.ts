@@ -0,0 +1,210 @@
+import type { MapStructure } from "@miehoukingdom/world-interface";
+import { fnv1a32 } from "./utils/hash.ts";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder("utf-8", { fatal: true });
+
+/**
+ * 存档文件魔数 "LVWS"
+ */
+const MAGIC = [0x4c, 0x56, 0x57, 0x53];
+/**
+ * 存档帧格式版本（与脚本的数据版本无关）
+ */
+const FORMAT_VERSION = 1;
+/**
+ * 头部长度：
+ * magic(4) + 帧格式版本(u16) + 保留(u16) + 数据版本(u32) + 指纹(u32) + 载荷长度(u32) + 校验和(u32)
+ */
+const HEADER_SIZE = 24;
+/**
+ * 旧版存档（直接 JSON.stringify 世界快照）所对应的数据版本
+ */
+const LEGACY_DATA_VERSION = 0;
+
+export type SaveDataErrorReason =
+  | "magic"
+  | "format"
+  | "version"
+  | "fingerprint"
+  | "checksum"
+  | "payload"
+  | "migration";
+
+/**
+ * 存档数据无法加载时抛出的错误，`reason` 标识具体原因
+ */
+export class SaveDataError extends Error {
+  override name = "SaveDataError";
+  constructor(
+    readonly reason: SaveDataErrorReason,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type SaveMigration = (snapshot: any) => any;
+
+/**
+ * 计算存档指纹，用于防止存档被加载到其他脚本或地图上。
+ * 只包含影响实体位置合法性的地图数据（尺寸、瓦片、传送门、8 方向移动、地块调色板），
+ * 区域和出生点的修改不会使存档失效。
+ */
+export function computeSaveFingerprint(
+  scriptName: string,
+  structure: MapStructure,
+): number {
+  // 未启用 8 方向移动、没有调色板的地图不加入这部分数据，与之前保存的存档指纹一致
+  const movement = {
+    diagonal: structure.diagonal || undefined,
+    palette: structure.palette?.length ? structure.palette : undefined,
+  };
+  return fnv1a32(
+    `${scriptName}\0${JSON.stringify([
+      structure.width,
+      structure.height,
+      structure.tiles,
+      structure.portals,
+      ...(movement.diagonal || movement.palette ? [movement] : []),
+    ])}`,
+  );
+}
+
+/**
+ * 带版本的二进制存档格式
+ *
+ * 存档由固定长度的头部和 UTF-8 JSON 载荷组成，头部包含魔数、数据版本、
+ * 脚本/地图指纹和载荷校验和。加载时会依次校验这些字段，并通过注册的迁移函数
+ * 把旧版本的数据逐版本升级到当前版本。
+ *
+ * 为了兼容，直接以 `{` 开头的旧版 JSON 存档会被视为数据版本 0（不校验指纹）。
+ */
+export class SaveFormat {
+  private migrations = new Map<number, SaveMigration>();
+
+  /**
+   * @param version 当前数据版本（组件结构变化时递增）
+   * @param fingerprint 存档指纹，见 `computeSaveFingerprint`
+   */
+  constructor(
+    readonly version: number,
+    readonly fingerprint: number,
+  ) {
+    if (!Number.isInteger(version) || version < 1 || version > 0xffffffff) {
+      throw new Error(`Invalid save data version: ${version}`);
+    }
+  }
+
+  /**
+   * 注册迁移函数，把 `from` 版本的快照迁移到 `from + 1` 版本
+   */
+  registerMigration(from: number, migrate: SaveMigration): this {
+    if (from < LEGACY_DATA_VERSION || from >= this.version) {
+      throw new Error(
+        `Migration from version ${from} is out of range [${LEGACY_DATA_VERSION}, ${this.version})`,
+      );
+    }
+    if (this.migrations.has(from)) {
+      throw new Error(`Migration from version ${from} already registered`);
+    }
+    this.migrations.set(from, migrate);
+    return this;
+  }
+
+  /**
+   * 编码世界快照
+   */
+  encode(snapshot: unknown): Uint8Array {
+    const payload = encoder.encode(JSON.stringify(snapshot));
+    const data = new Uint8Array(HEADER_SIZE + payload.length);
+    const view = new DataView(data.buffer);
+    data.set(MAGIC, 0);
+    view.setUint16(4, FORMAT_VERSION, true);
+    view.setUint16(6, 0, true);
+    view.setUint32(8, this.version, true);
+    view.setUint32(12, this.fingerprint, true);
+    view.setUint32(16, payload.length, true);
+    view.setUint32(20, fnv1a32(payload), true);
+    data.set(payload, HEADER_SIZE);
+    return data;
+  }
+
+  /**
+   * 解码存档并迁移到当前数据版本
+   *
+   * @throws {SaveDataError} 存档损坏、版本不支持或与当前脚本/地图不匹配时抛出
+   */
+  decode(data: Uint8Array): unknown {
+    if (data[0] === 0x7b /* "{" */) {
+      return this.migrate(parsePayload(data), LEGACY_DATA_VERSION);
+    }
+    if (data.length < HEADER_SIZE || MAGIC.some((b, i) => data[i] !== b)) {
+      throw new SaveDataError("magic", "Not a world save file");
+    }
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const format = view.getUint16(4, true);
+    if (format !== FORMAT_VERSION) {
+      throw new SaveDataError(
+        "format",
+        `Unsupported save format version ${format}`,
+      );
+    }
+    const version = view.getUint32(8, true);
+    if (version > this.version) {
+      throw new SaveDataError(
+        "version",
+        `Save data version ${version} is newer than supported version ${this.version}`,
+      );
+    }
+    const fingerprint = view.getUint32(12, true);
+    if (fingerprint !== this.fingerprint) {
+      throw new SaveDataError(
+        "fingerprint",
+        "Save data was created by a different script or map",
+      );
+    }
+    const length = view.getUint32(16, true);
+    if (HEADER_SIZE + length !== data.length) {
+      throw new SaveDataError(
+        "payload",
+        `Save data length mismatch: expected ${length} bytes of payload, got ${data.length - HEADER_SIZE}`,
+      );
+    }
+    const payload = data.subarray(HEADER_SIZE);
+    if (fnv1a32(payload) !== view.getUint32(20, true)) {
+      throw new SaveDataError("checksum", "Save data checksum mismatch");
+    }
+    return this.migrate(parsePayload(payload), version);
+  }
+
+  private migrate(snapshot: unknown, from: number): unknown {
+    for (let version = from; version < this.version; version++) {
+      const migration = this.migrations.get(version);
+      if (!migration) {
+        throw new SaveDataError(
+          "migration",
+          `No migration registered from save data version ${version}`,
+        );
+      }
+      try {
+        snapshot = migration(snapshot);
+      } catch (error) {
+        throw new SaveDataError(
+          "migration",
+          `Migration from save data version ${version} failed: ${error}`,
+        );
+      }
+    }
+    return snapshot;
+  }
+}
+
+function parsePayload(payload: Uint8Array): unknown {
+  try {
+    return JSON.parse(decoder.decode(payload));
+  } catch (error) {
+    throw new SaveDataError("payload", `Corrupted save data: ${error}`);
+  }
+}
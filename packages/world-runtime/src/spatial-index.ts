@@ -0,0 +1,131 @@
+import type { EntityId } from "@codehz/ecs";
+import type { GridGeometry } from "./geometry.ts";
+
+/**
+ * 默认的桶边长（格子数）
+ */
+const DEFAULT_BUCKET_SIZE = 8;
+
+/**
+ * 一个桶内的实体及其坐标（并列数组，避免逐个查表）
+ */
+interface Bucket {
+  entities: EntityId[];
+  xs: number[];
+  ys: number[];
+}
+
+/**
+ * 空间索引
+ *
+ * 把地图按 bucketSize × bucketSize 的桶划分，记录每个桶内的实体，
+ * 半径查询只需要检查与查询范围相交的桶。
+ *
+ * 索引不跟踪实体的移动，需要每个 tick 调用 `clear` 后重新插入（见 PerceptionPass）。
+ */
+export class SpatialIndex {
+  readonly bucketsX: number;
+  readonly bucketsY: number;
+  private buckets: Bucket[];
+  /**
+   * 实体 → 所在的格子
+   */
+  private cells = new Map<EntityId, number>();
+
+  /**
+   * @param geometry 地图几何信息
+   * @param bucketSize 桶的边长（格子数）
+   */
+  constructor(
+    readonly geometry: GridGeometry,
+    readonly bucketSize = DEFAULT_BUCKET_SIZE,
+  ) {
+    if (!Number.isInteger(bucketSize) || bucketSize < 1) {
+      throw new Error(`Invalid bucket size: ${bucketSize}`);
+    }
+    this.bucketsX = Math.ceil(geometry.width / bucketSize);
+    this.bucketsY = Math.ceil(geometry.height / bucketSize);
+    this.buckets = Array.from(
+      { length: this.bucketsX * this.bucketsY },
+      () => ({ entities: [], xs: [], ys: [] }),
+    );
+  }
+
+  /**
+   * 索引中的实体数量
+   */
+  get size(): number {
+    return this.cells.size;
+  }
+
+  /**
+   * 清空索引（保留桶的数组，避免每个 tick 重新分配）
+   */
+  clear(): void {
+    for (const bucket of this.buckets) {
+      bucket.entities.length = 0;
+      bucket.xs.length = 0;
+      bucket.ys.length = 0;
+    }
+    this.cells.clear();
+  }
+
+  /**
+   * 插入实体，同一个实体在两次 `clear` 之间只能插入一次
+   */
+  insert(entity: EntityId, x: number, y: number): void {
+    const bucket =
+      this.buckets[
+        Math.floor(y / this.bucketSize) * this.bucketsX +
+          Math.floor(x / this.bucketSize)
+      ]!;
+    bucket.entities.push(entity);
+    bucket.xs.push(x);
+    bucket.ys.push(y);
+    this.cells.set(entity, this.geometry.toIndex(x, y));
+  }
+
+  /**
+   * 实体所在的格子，不在索引中时返回 undefined
+   */
+  cellOf(entity: EntityId): number | undefined {
+    return this.cells.get(entity);
+  }
+
+  /**
+   * 查询与 (x, y) 的距离（欧几里得距离）不超过 radius 的实体
+   *
+   * @param out 用于接收结果的数组，结果会追加到数组末尾
+   */
+  queryRadius(
+    x: number,
+    y: number,
+    radius: number,
+    out: EntityId[] = [],
+  ): EntityId[] {
+    if (radius < 0) return out;
+    const { bucketSize } = this;
+    const minX = Math.max(0, Math.floor((x - radius) / bucketSize));
+    const maxX = Math.min(
+      this.bucketsX - 1,
+      Math.floor((x + radius) / bucketSize),
+    );
+    const minY = Math.max(0, Math.floor((y - radius) / bucketSize));
+    const maxY = Math.min(
+      this.bucketsY - 1,
+      Math.floor((y + radius) / bucketSize),
+    );
+    const limit = radius * radius;
+    for (let by = minY; by <= maxY; by++) {
+      for (let bx = minX; bx <= maxX; bx++) {
+        const { entities, xs, ys } = this.buckets[by * this.bucketsX + bx]!;
+        for (let i = 0; i < entities.length; i++) {
+          const dx = xs[i]! - x;
+          const dy = ys[i]! - y;
+          if (dx * dx + dy * dy <= limit) out.push(entities[i]!);
+        }
+      }
+    }
+    return out;
+  }
+}
@@ -3,18 +3,65 @@ import {
   relation,
   type ComponentId,
   type EntityId,
+  type Query,
   type World,
 } from "@codehz/ecs";
-import { Task, TaskCompleted } from "./components.ts";
+import type { SyncPass } from "@codehz/pipeline";
+import { Task, TaskCompleted, type TaskState } from "./components.ts";
+
+/**
+ * 任务控制对象
+ */
+export interface TaskHandle {
+  /** 任务被中止（实体删除、任务被停止、超时等）时触发 */
+  signal: AbortSignal;
+  /**
+   * 完成任务。可以在任意时刻调用（例如异步回调中），
+   * 但只会在下一次 TaskManager 执行时才移除任务组件并添加任务完成组件
+   */
+  complete(): void;
+}
+
+/**
+ * 启动任务的选项
+ */
+export interface TaskStartOptions {
+  /** 自定义数据，会随存档保存并在恢复时传给 `onResume` 回调 */
+  payload?: unknown;
+  /** 超时 tick 数，超过后任务会被停止（与 `stop` 相同） */
+  timeout?: number;
+}
+
+/**
+ * 从存档恢复的任务
+ */
+export interface ResumedTask extends TaskHandle {
+  /** 任务所属实体 */
+  entity: EntityId;
+  /** 保存时的任务元数据 */
+  state: TaskState;
+  /** 放弃任务：与 `TaskManager.stop` 相同，会同时移除任务目标组件 */
+  fail(): void;
+}
 
 /**
  * 任务管理器，用于管理实体的异步任务(如 AI 调用等)
  *
  * 请在 Pass 构造函数中初始化此类，并在需要时调用其方法来启动和停止任务。
+ * TaskManager 本身也是一个 Pass，需要加入 pipeline：异步任务可以在任意时刻调用 `complete`，
+ * 完成结果会排队，直到 TaskManager 执行时才生效；同时它也负责推进任务的 tick 计数和超时。
+ * 这样无论宿主以什么频率调用 tick，任务结果都只会在确定的 tick 边界上生效。
+ *
+ * 任务的 AbortController 无法随世界保存，从存档恢复时，未完成的任务会交给
+ * `onResume` 注册的回调决定重新执行还是放弃；未注册回调时任务会被停止。
  */
-export class TaskManager {
+export class TaskManager implements SyncPass {
   private tasks = new Map<EntityId, AbortController>();
+  private completions: { entity: EntityId; controller: AbortController }[] = [];
   private world!: World;
+  private query!: Query;
+  private resume?: (task: ResumedTask) => void;
+  private warn?: (msg: string) => void;
   /**
    * 任务管理器构造函数
    *
@@ -27,6 +74,16 @@ export class TaskManager {
     private name = getComponentNameById(target as ComponentId)!,
   ) {}
 
+  /**
+   * 注册从存档恢复任务时的回调，需要在 `init` 之前调用
+   *
+   * @param resume 回调，可以通过 `complete` 继续完成任务，或通过 `fail` 放弃任务
+   */
+  onResume(resume: (task: ResumedTask) => void): this {
+    this.resume = resume;
+    return this;
+  }
+
   /**
    * 初始化任务管理器，设置世界钩子以监听任务组件的添加和移除
    *
@@ -40,14 +97,31 @@ export class TaskManager {
     log?: (msg: string) => void,
   ) {
     this.world = world;
+    this.warn = warn;
+    this.query = world.createQuery([relation(Task, this.target)]);
     world.hook(relation(Task, this.target), {
       on_init: (entity) => {
-        if (!this.tasks.has(entity)) {
-          // Sanity check: Task component added without starting a task
-          // It may happen during world recovering from snapshot
-          world.remove(entity, relation(Task, this.target));
+        if (this.tasks.has(entity)) return;
+        // Task component added without starting a task,
+        // it happens during world recovering from snapshot
+        if (this.resume) {
+          log?.(`Resuming ${this.name} task for entity ${entity}.`);
+          const state: TaskState = {
+            elapsedTicks: 0,
+            ...world.get(entity, relation(Task, this.target)),
+          };
+          const abortController = new AbortController();
+          this.tasks.set(entity, abortController);
+          this.resume({
+            ...this.handle(entity, abortController),
+            entity,
+            state,
+            fail: () => this.stop(entity),
+          });
+        } else {
+          this.stop(entity);
           warn?.(
-            `Task component for ${this.name} added to entity ${entity} without starting a task. Removed it.`,
+            `Task component for ${this.name} added to entity ${entity} without starting a task. Stopped it.`,
           );
         }
       },
@@ -86,31 +160,76 @@ export class TaskManager {
   /**
    * 启动任务，为实体添加任务组件并返回控制任务的对象
    * @param entity 实体 ID
+   * @param options 任务选项（自定义数据、超时 tick 数）
    * @returns 任务控制对象，包含中止信号和完成回调
    */
-  start(entity: EntityId) {
+  start(entity: EntityId, options: TaskStartOptions = {}): TaskHandle {
     const abortController = new AbortController();
+    this.tasks.get(entity)?.abort();
     this.tasks.set(entity, abortController);
-    this.world.set(entity, relation(Task, this.target));
+    this.world.set(entity, relation(Task, this.target), {
+      elapsedTicks: 0,
+      timeout: options.timeout,
+      payload: options.payload,
+    });
+    return this.handle(entity, abortController);
+  }
+
+  private handle(
+    entity: EntityId,
+    abortController: AbortController,
+  ): TaskHandle {
     return {
       signal: abortController.signal,
       complete: () => {
-        if (!this.tasks.has(entity)) {
+        if (this.tasks.get(entity) !== abortController) {
           return;
         }
-        this.world.remove(entity, relation(Task, this.target));
-        this.world.set(entity, relation(TaskCompleted, this.target));
-        this.world.sync();
-        this.tasks.delete(entity);
+        this.completions.push({ entity, controller: abortController });
       },
     };
   }
 
+  /**
+   * 在 pipeline 中执行：
+   * - 应用自上次执行以来排队的任务完成结果
+   * - 推进其余任务的 tick 计数，停止超时的任务
+   */
+  run(): void {
+    const completed = new Set<EntityId>();
+    const completions = this.completions;
+    this.completions = [];
+    for (const { entity, controller } of completions) {
+      if (this.tasks.get(entity) !== controller) continue;
+      this.world.remove(entity, relation(Task, this.target));
+      this.world.set(entity, relation(TaskCompleted, this.target));
+      this.tasks.delete(entity);
+      completed.add(entity);
+    }
+    this.query.forEach([relation(Task, this.target)], (entity, state) => {
+      if (completed.has(entity) || !this.tasks.has(entity)) return;
+      const elapsedTicks = (state?.elapsedTicks ?? 0) + 1;
+      if (state?.timeout !== undefined && elapsedTicks >= state.timeout) {
+        this.warn?.(
+          `${this.name} task for entity ${entity} timed out after ${elapsedTicks} ticks.`,
+        );
+        this.stop(entity);
+        return;
+      }
+      this.world.set(entity, relation(Task, this.target), {
+        ...state,
+        elapsedTicks,
+      });
+    });
+  }
+
   /**
    * 停止任务，为实体移除任务组件
    * @param entity 实体 ID
    */
   stop(entity: EntityId) {
+    this.tasks.get(entity)?.abort();
+    this.tasks.delete(entity);
     this.world.remove(entity, this.target);
     this.world.remove(entity, relation(Task, this.target));
     this.world.remove(entity, relation(TaskCompleted, this.target));
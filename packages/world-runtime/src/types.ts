@@ -1,3 +1,6 @@
+/**
+ * 内置的地块类型，地图也可以通过调色板（TileDefinition）定义其他数值的地块
+ */
 export enum TileType {
   Obstacle = 0,
   Normal = 1,
@@ -9,6 +12,11 @@ export enum Direction {
   Down = 1,
   Left = 2,
   Right = 3,
+  // 斜向，只在启用了 8 方向移动的地图上使用
+  UpLeft = 4,
+  UpRight = 5,
+  DownLeft = 6,
+  DownRight = 7,
 }
 
 export interface Portal {
@@ -22,3 +30,13 @@ export interface Area {
   description?: string;
   cells: number[]; // 1D indices
 }
+
+export interface TileDefinition {
+  id: number; // 在 tiles 中使用的数值（非负整数）
+  name?: string;
+  cost?: number; // 进入该地块的移动代价，默认 10
+  passable?: boolean; // 是否可以通行，默认 true
+  entryDirections?: Direction[]; // 允许进入的移动方向，未提供时不限制
+  tags?: string[];
+  teams?: number[]; // 只允许这些队伍的角色进入（见 MovementProfile.team），其他角色视其为障碍
+}
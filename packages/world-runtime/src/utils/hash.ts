@@ -0,0 +1,15 @@
+const encoder = new TextEncoder();
+
+/**
+ * 32 位 FNV-1a 哈希，用于存档指纹、校验和等非加密场景。
+ * 字符串会先按 UTF-8 编码。
+ */
+export function fnv1a32(data: Uint8Array | string): number {
+  const bytes = typeof data === "string" ? encoder.encode(data) : data;
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < bytes.length; i++) {
+    hash ^= bytes[i]!;
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,78 @@
+/**
+ * 基于类型化数组的二叉最小堆，用于寻路等热点路径。
+ *
+ * 与 MinHeap 不同，它不跟踪键的位置，同一个键可以被多次压入（懒删除），
+ * 调用方需要在弹出时自行跳过已经处理过的键。缓冲区在多次搜索之间复用，避免反复分配。
+ */
+export class TypedMinHeap {
+  private keys: Int32Array;
+  private priorities: Float64Array;
+  private length = 0;
+
+  constructor(capacity = 64) {
+    this.keys = new Int32Array(capacity);
+    this.priorities = new Float64Array(capacity);
+  }
+
+  get size(): number {
+    return this.length;
+  }
+
+  clear(): void {
+    this.length = 0;
+  }
+
+  push(key: number, priority: number): void {
+    if (this.length === this.keys.length) this.grow();
+    let idx = this.length++;
+    while (idx > 0) {
+      const parent = (idx - 1) >> 1;
+      if (this.priorities[parent]! <= priority) break;
+      this.keys[idx] = this.keys[parent]!;
+      this.priorities[idx] = this.priorities[parent]!;
+      idx = parent;
+    }
+    this.keys[idx] = key;
+    this.priorities[idx] = priority;
+  }
+
+  /**
+   * 弹出优先级最小的键，堆为空时返回 -1
+   */
+  pop(): number {
+    if (this.length === 0) return -1;
+    const top = this.keys[0]!;
+    const len = --this.length;
+    if (len > 0) {
+      const key = this.keys[len]!;
+      const priority = this.priorities[len]!;
+      let idx = 0;
+      while (true) {
+        let child = idx * 2 + 1;
+        if (child >= len) break;
+        if (
+          child + 1 < len &&
+          this.priorities[child + 1]! < this.priorities[child]!
+        ) {
+          child++;
+        }
+        if (this.priorities[child]! >= priority) break;
+        this.keys[idx] = this.keys[child]!;
+        this.priorities[idx] = this.priorities[child]!;
+        idx = child;
+      }
+      this.keys[idx] = key;
+      this.priorities[idx] = priority;
+    }
+    return top;
+  }
+
+  private grow(): void {
+    const keys = new Int32Array(this.keys.length * 2);
+    keys.set(this.keys);
+    this.keys = keys;
+    const priorities = new Float64Array(this.priorities.length * 2);
+    priorities.set(this.priorities);
+    this.priorities = priorities;
+  }
+}
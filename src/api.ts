@@ -1,49 +1,126 @@
 import type { EntityId, Query, World } from "@codehz/ecs";
 import {
   PlayerId,
+  PlayerStatus,
   type PlayerInfo,
   type ScriptApi,
+  type ScriptCommandMap,
   type ScriptTickResult,
 } from "@miehoukingdom/world-interface";
 import {
+  CurrentArea,
   FaceDirection,
+  Fixed,
+  type CommandQueue,
   Move,
+  PlayerInitData,
+  PlayerInitRegistry,
   Position,
   StraightWalk,
+  Team,
+  type SaveFormat,
+  type TeamPass,
 } from "@miehoukingdom/world-runtime";
 
-const encoder = new TextEncoder();
+export interface EcsWorkerApiOptions {
+  /**
+   * 插件注册表，负责把 PlayerInit 映射为组件
+   */
+  plugins?: PlayerInitRegistry;
+  /**
+   * 队伍计分 pass（启用 team 插件时提供），用于输出队伍信息
+   */
+  teams?: TeamPass;
+  /**
+   * 宿主指令队列，未提供时不支持 dispatch
+   */
+  commands?: CommandQueue;
+  /**
+   * 存档格式，未提供时不支持 save
+   */
+  saveFormat?: SaveFormat;
+}
 
-export class EcsWorkerApi<PlayerInit> implements ScriptApi<PlayerInit> {
+export class EcsWorkerApi<
+  PlayerInit extends object,
+> implements ScriptApi<PlayerInit> {
   #players: Query;
   #exports: Query;
   #lastMove: Map<EntityId, number> = new Map();
+  #plugins: PlayerInitRegistry;
+  #teams?: TeamPass;
+  #commands?: CommandQueue;
+  #saveFormat?: SaveFormat;
+  /**
+   * @param world 世界实例
+   * @param pipeline 每帧执行的 pass 流水线
+   * @param options 可选的插件、指令和存档支持
+   */
   constructor(
     private world: World,
     private pipeline: () => unknown,
+    options: EcsWorkerApiOptions = {},
   ) {
+    this.#plugins = options.plugins ?? new PlayerInitRegistry();
+    this.#teams = options.teams;
+    this.#commands = options.commands;
+    this.#saveFormat = options.saveFormat;
     this.#players = world.createQuery([PlayerId]);
     this.#exports = world.createQuery([PlayerId, Position, FaceDirection]);
   }
   setupPlayers(players: Record<string, PlayerInit>): void {
-    const existsingPlayers = new Map<string, EntityId>();
-    this.#players.forEach([PlayerId], (entity, id) => {
-      existsingPlayers.set(id, entity);
-    });
+    const existsingPlayers = new Map<
+      string,
+      { entity: EntityId; init?: Record<string, unknown> }
+    >();
+    this.#players.forEach(
+      [PlayerId, { optional: PlayerInitData }],
+      (entity, id, init) => {
+        existsingPlayers.set(id, { entity, init: init?.value });
+      },
+    );
+    // 先校验所有数据，避免部分角色已经应用后才发现错误
+    for (const playerId in players) {
+      this.#plugins.validate(players[playerId]!);
+    }
     for (const playerId in players) {
-      if (!existsingPlayers.has(playerId)) {
+      const init = structuredClone(players[playerId]!) as Record<
+        string,
+        unknown
+      >;
+      const existing = existsingPlayers.get(playerId);
+      if (!existing) {
         const entity = this.world.new();
         this.world.set(entity, PlayerId, playerId);
+        this.world.set(entity, PlayerInitData, init);
+        this.#plugins.apply(entity, init);
       } else {
         existsingPlayers.delete(playerId);
+        // 已存在的角色：仅当插件字段发生变化时更新对应组件
+        if (this.#plugins.apply(existing.entity, init, existing.init ?? {})) {
+          this.world.set(existing.entity, PlayerInitData, init);
+        }
       }
     }
-    for (const entity of existsingPlayers.values()) {
+    for (const { entity } of existsingPlayers.values()) {
       this.world.delete(entity);
     }
     this.world.sync();
   }
+  dispatch<K extends keyof ScriptCommandMap>(
+    command: K,
+    data: ScriptCommandMap[K],
+  ): void {
+    if (!this.#commands) {
+      throw new Error("This script does not accept commands");
+    }
+    this.#commands.push(command, data);
+  }
   tick(): ScriptTickResult {
+    // 在 pipeline 之前应用排队的指令，使其在本帧内确定地生效
+    if (this.#commands?.flush()) {
+      this.world.sync();
+    }
     this.pipeline();
     const players: Record<string, PlayerInfo> = {};
     const moving = new Map<EntityId, number>();
@@ -54,8 +131,23 @@ export class EcsWorkerApi<PlayerInit> implements ScriptApi<PlayerInit> {
         FaceDirection,
         { optional: Move },
         { optional: StraightWalk },
+        { optional: Fixed },
+        { optional: Team },
+        { optional: CurrentArea },
+        { optional: PlayerStatus },
       ],
-      (entity, id, pos, dir, move, straight_walk) => {
+      (
+        entity,
+        id,
+        pos,
+        dir,
+        move,
+        straight_walk,
+        fixed,
+        team,
+        area,
+        status,
+      ) => {
         let moveState: { current: number; total: number } | undefined;
         if (move) {
           moveState = {
@@ -73,18 +165,24 @@ export class EcsWorkerApi<PlayerInit> implements ScriptApi<PlayerInit> {
         players[id] = {
           x: pos.x,
           y: pos.y,
-          direction: dir as 0 | 1 | 2 | 3,
+          direction: dir as number as PlayerInfo["direction"],
           move: moveState,
-          status: straight_walk ? undefined : "thinking",
+          // 优先使用实体上的PlayerStatus（例如对话中的 "speaking"）
+          status:
+            status?.value ?? (straight_walk || fixed ? undefined : "thinking"),
+          team: team?.value,
+          areas: area?.value,
         };
       },
     );
     this.#lastMove = moving;
-    return { players };
+    return { players, teams: this.#teams?.info() };
   }
 
   save(): Uint8Array {
-    const data = this.world.serialize();
-    return encoder.encode(JSON.stringify(data));
+    if (!this.#saveFormat) {
+      throw new Error("This script does not support saving");
+    }
+    return this.#saveFormat.encode(this.world.serialize());
   }
 }
@@ -0,0 +1,99 @@
+import { describe, expect, test } from "bun:test";
+import { Direction, type MapStructure } from "@miehoukingdom/world-interface";
+import {
+  assertNoSharedTiles,
+  assertPlayerReached,
+  runSimulation,
+} from "@miehoukingdom/world-runtime";
+import entrypoint from "./index.ts";
+
+/**
+ * 12x7 的地图，x = 6 处有一道墙，只在 y = 1 和 y = 5 处留有缺口
+ */
+function walledMap(): MapStructure {
+  const width = 12;
+  const height = 7;
+  const tiles = Array.from({ length: width * height }, (_, index) => {
+    const x = index % width;
+    const y = Math.floor(index / width);
+    return x === 6 && y !== 1 && y !== 5 ? 0 : 1;
+  });
+  return {
+    width,
+    height,
+    tiles,
+    spawnPoints: [{ x: 1, y: 3 }],
+    portals: [],
+    areas: [],
+  };
+}
+
+/**
+ * 先用 fixed 插件把角色放在互不重叠的格子上，第 2 个 tick 开始前解除固定，
+ * 避免随机出生点重复导致角色一开始就重叠
+ */
+function pinned(positions: Record<string, [number, number]>) {
+  return Object.fromEntries(
+    Object.entries(positions).map(([id, [x, y]]) => [
+      id,
+      { fixed: { x, y, direction: Direction.Down } },
+    ]),
+  );
+}
+
+function released(positions: Record<string, [number, number]>) {
+  return Object.fromEntries(Object.keys(positions).map((id) => [id, {}]));
+}
+
+describe("template script", () => {
+  test("PathFindingPass 绕过被占据的缺口到达目标", async () => {
+    const result = await runSimulation(entrypoint, {
+      structure: walledMap(),
+      // bob 一直钉在上方的缺口里，alice 只能从下方的缺口绕过去
+      players: pinned({ alice: [1, 3], bob: [6, 1] }),
+      ticks: 250,
+      beforeTick: (tick, api) => {
+        if (tick !== 2) return;
+        api.setupPlayers({ ...pinned({ bob: [6, 1] }), alice: {} });
+        api.dispatch?.("player:goto", { playerId: "alice", x: 10, y: 3 });
+      },
+    });
+    assertNoSharedTiles(result);
+    // 经过下方缺口共 13 步，每步 10 个 tick
+    assertPlayerReached(result, "alice", { x: 10, y: 3 }, 200);
+    expect(result.ticks.at(-1)?.players.bob).toMatchObject({ x: 6, y: 1 });
+  });
+
+  test("DynamicColliderPass 保证任何时刻都没有两个角色位于同一格子", async () => {
+    const positions: Record<string, [number, number]> = {
+      a: [0, 1],
+      b: [11, 1],
+      c: [0, 5],
+      d: [11, 5],
+      e: [3, 3],
+      f: [9, 3],
+    };
+    const result = await runSimulation(entrypoint, {
+      structure: walledMap(),
+      players: pinned(positions),
+      ticks: 600,
+      beforeTick: (tick, api) => {
+        if (tick !== 2) return;
+        api.setupPlayers(released(positions));
+        // 两侧的角色互相交换位置，必须在狭窄的缺口处相遇
+        const swaps: [string, string][] = [
+          ["a", "b"],
+          ["c", "d"],
+          ["e", "f"],
+        ];
+        for (const [first, second] of swaps) {
+          const [fx, fy] = positions[first]!;
+          const [sx, sy] = positions[second]!;
+          api.dispatch?.("player:goto", { playerId: first, x: sx, y: sy });
+          api.dispatch?.("player:goto", { playerId: second, x: fx, y: fy });
+        }
+      },
+    });
+    assertNoSharedTiles(result);
+  });
+});
@@ -1,42 +1,66 @@
-import { Query, relation, World } from "@codehz/ecs";
+import { Query, World } from "@codehz/ecs";
 import { createPipeline, type SyncPass } from "@codehz/pipeline";
 import {
   defineScriptEntrypoint,
   PlayerId,
   PlayerStatus,
+  plugins,
+  type MapDirectionName,
   type MapStructure,
+  type MapTileDefinition,
   type ScriptInitOptions,
   type ScriptPlatform,
 } from "@miehoukingdom/world-interface";
 import {
+  AreaTrackingPass,
+  behavior,
+  Behavior,
+  BehaviorPass,
+  CARDINAL_DIRECTIONS,
+  ClockPass,
+  CommandQueue,
+  computeSaveFingerprint,
+  ConversationPass,
+  createFixedPlugin,
+  createTeamPlugin,
   Direction,
   DynamicCollider,
   DynamicColliderPass,
   FaceDirection,
+  Fixed,
+  GoalArea,
   GoalPathfinding,
   GridGeometry,
   GridMap,
+  MapPass,
+  MemoryPass,
   Move,
+  MovementEventPass,
   MovementPass,
   PathFindingPass,
   PathPlan,
   PendingPass,
+  PerceptionPass,
   PlanExecutionPass,
+  PlayerInitRegistry,
   Position,
+  Random,
+  RandomPass,
+  SaveFormat,
+  SchedulePass,
   StraightWalk,
   StraightWalkPass,
-  Task,
-  TaskCompleted,
   TaskManager,
-  Timeout,
-  Timer,
+  TeamPass,
   TimerPass,
+  WorldClock,
   type Area,
   type Portal,
+  type TaskHandle,
+  type TileDefinition,
 } from "@miehoukingdom/world-runtime";
 import { EcsWorkerApi } from "./api.ts";
 import { PlayerInited, Thinking } from "./components.ts";
-import { randomInt, randomSelect } from "./random.ts";
 
 /**
  * InitPlayerPass
@@ -44,6 +68,7 @@ import { randomInt, randomSelect } from "./random.ts";
  * 一个负责初始化新玩家实体的同步 Pass。
  * 该 Pass 会查找所有带有 `PlayerId` 且没有 `PlayerInited` 标记的实体，
  * 并为它们分配出生位置、朝向、碰撞器等初始组件。
+ * 带有 `Fixed` 标记的实体已经由 `fixed` 插件指定了位置和朝向，不会被随机分配。
  *
  * @implements {SyncPass}
  */
@@ -52,11 +77,15 @@ class InitPlayerPass implements SyncPass {
   /**
    * 构造函数
    * @param {World} world ECS 世界实例，用于对实体进行读写操作
+   * @param {Random} random 随机数生成器，用于随机分配出生位置和朝向
    * @param {{x:number,y:number}[]} [spawnPoints=[]] 出生点列表，用于随机分配玩家出生位置
+   * @param {readonly Direction[]} [directions] 可选的朝向（地图启用 8 方向移动时包括斜向）
    */
   constructor(
     private world: World,
+    private random: Random,
     private spawnPoints: { x: number; y: number }[] = [],
+    private directions: readonly Direction[] = CARDINAL_DIRECTIONS,
   ) {
     this.query = world.createQuery([PlayerId], {
       negativeComponentTypes: [PlayerInited],
@@ -66,22 +95,19 @@ class InitPlayerPass implements SyncPass {
    * run
    *
    * 遍历匹配查询找到未初始化的玩家实体并设置其初始组件：
-   * - Position: 随机出生点
-   * - FaceDirection: 随机朝向
+   * - Position: 随机出生点（Fixed 实体除外）
+   * - FaceDirection: 随机朝向（Fixed 实体除外）
    * - DynamicCollider: 启用动态碰撞
    * - PlayerInited: 标记实体已初始化，避免重复初始化
    */
   run() {
-    this.query.forEach([], (entity) => {
-      const point = randomSelect(this.spawnPoints);
-      const direction = randomSelect([
-        Direction.Up,
-        Direction.Down,
-        Direction.Left,
-        Direction.Right,
-      ]);
-      this.world.set(entity, Position, { x: point.x, y: point.y });
-      this.world.set(entity, FaceDirection, direction);
+    this.query.forEach([{ optional: Fixed }], (entity, fixed) => {
+      if (!fixed) {
+        const point = this.random.randomSelect(this.spawnPoints);
+        const direction = this.random.randomSelect(this.directions);
+        this.world.set(entity, Position, { x: point.x, y: point.y });
+        this.world.set(entity, FaceDirection, direction);
+      }
       this.world.set(entity, DynamicCollider);
       this.world.set(entity, PlayerInited);
     });
@@ -91,126 +117,135 @@ class InitPlayerPass implements SyncPass {
 /**
  * SimpleAIPass
  *
- * 演示型的 AI 行为 Pass：该 Pass 负责将“空闲”玩家实体进入思考（Thinking）状态，
- * 创建并完成 Task，开启计时器（Timer），以及在 Timeout 后触发随机行走（StraightWalk）。
+ * 演示型的 AI 行为 Pass：为空闲的玩家实体挂上行为树（Behavior），并由内部的 BehaviorPass 执行。
+ *
+ * 行为树（见 createTree）按顺序执行：
+ *  1) 角色空闲（没有移动/计划/寻路目标）时进入 thinking 状态，创建 Task 并等待其完成
+ *  2) Task 完成后转入 tip 状态，发出 `thinking:start` 事件并等待随机的 ticks（Timer）
+ *  3) 等待结束后清除状态、发出 `thinking:end`，随机触发短期直走行为（StraightWalk），然后重新开始
  *
- * 处理流程：
- *  1) noActionQuery：检测空闲玩家，创建 Task 并进入 Thinking
- *  2) startThinkingQuery：Task 完成后为玩家设置 Timer（进入等待 ticks）并发出 `thinking:start` 事件
- *  3) timeoutQuery：Timer 到期（Timeout），清理 Thinking 相关状态并随机触发短期直走行为
+ * 行为树的运行状态保存在 Behavior 组件上，随存档一起保存。
+ * 注意：`tasks`（TaskManager）本身也是一个 Pass，需要单独加入 pipeline 才能让任务完成结果生效。
  *
  * @implements {SyncPass}
  */
 class SimpleAIPass implements SyncPass {
-  noActionQuery: Query;
-  startThinkingQuery: Query;
-  timeoutQuery: Query;
+  query: Query;
   tasks = new TaskManager(Thinking);
+  behaviors: BehaviorPass;
 
   /**
    * 构造函数
    * @param {World} world 世界实例
+   * @param {GridMap} map 地图，供行为树中的移动节点使用
    * @param {ScriptPlatform} platform 平台接口（用于发送事件等）
+   * @param {Random} random 随机数生成器，用于决定思考时长和随机行走
    */
   constructor(
     private world: World,
+    private map: GridMap,
     private platform: ScriptPlatform,
+    private random: Random,
   ) {
-    this.tasks.init(world, console.warn, console.log);
-    // noActionQuery: 用于查找当前“空闲”（无正在执行动作/计划/思考）的玩家实体。
-    // 具体含义：
-    // - 要求实体具备 `PlayerInited` 与 `PlayerId`（即已初始化并代表玩家）
-    // - 但必须没有以下任何组件：
-    //   * 移动相关：Move / StraightWalk（表示实体正处于移动中）
-    //   * 路径相关：PathPlan / GoalPathfinding（表示实体正在做路径规划或有导航目标）
-    //   * 思考相关：Thinking（当前处于思考状态）
-    // 这样能确保：该查询只会匹配那些真正“空闲”的玩家（没有移动/计划/思考/任务/计时器等），
-    // 因此我们可以安全地为其启动 Thinking 流程并创建 Task。
-    this.noActionQuery = world.createQuery([PlayerInited, PlayerId], {
-      negativeComponentTypes: [
-        Move,
-        StraightWalk,
-        PathPlan,
-        GoalPathfinding,
-        Thinking,
-      ],
-    });
-    // startThinkingQuery: 检测那些已经进入 Thinking 且 Task 已完成，但尚未进入 Timer/Timeout 阶段的玩家
-    // 逻辑解释：
-    // - 匹配条件包含 `Thinking` 与 `relation(TaskCompleted, Thinking)`：表示这个玩家刚刚完成了思考任务
-    // - 负条件 `relation(Timer, Thinking)` 与 `relation(Timeout, Thinking)` 确保我们只为没有计时器的玩家创建 Timer
-    // 这个查询通常用于将玩家的状态从 TaskCompleted 转入等待（Timer）以模拟思考过程中的延迟（ticks）
-    this.startThinkingQuery = world.createQuery(
-      [PlayerId, Thinking, relation(TaskCompleted, Thinking)],
-      {
-        negativeComponentTypes: [
-          relation(Timer, Thinking),
-          relation(Timeout, Thinking),
-        ],
-      },
+    this.tasks
+      // 从存档恢复时，未完成的思考任务会重新开始模拟思考，避免角色卡在 Thinking 状态
+      .onResume((task) => simulateThinking(task))
+      .init(world, console.warn, console.log);
+    this.behaviors = new BehaviorPass(
+      world,
+      map,
+      { [SIMPLE_AI_TREE]: this.createTree() },
+      console.warn,
     );
-    // timeoutQuery: 用于检测那些在 Thinking 状态下且已触发 Timeout（即等待计时器到达并被转换为 Timeout）的玩家
-    // 当这个查询匹配时，表明该玩家的思考等待阶段已结束，我们应该清理思考状态并执行后续动作（例如随机行走）
-    this.timeoutQuery = world.createQuery([
-      Thinking,
-      PlayerId,
-      relation(Timeout, Thinking),
-    ]);
+    // query: 已初始化、还没有行为树的玩家（由 fixed 插件钉在原地的角色不参与 AI）
+    this.query = world.createQuery([PlayerInited, PlayerId], {
+      negativeComponentTypes: [Behavior, Fixed],
+    });
   }
+
   run() {
-    // Step A: for entities that currently have no actions, start Thinking
-    // - 将实体标记为 Thinking
-    // - 创建并开始一个 Task，代表 AI 正在处理决策
-    this.noActionQuery.forEach([], (entity) => {
-      this.world.set(entity, Thinking);
-      this.world.set(entity, PlayerStatus, "thinking");
-      const task = this.tasks.start(entity);
-      // Simulate thinking time with a timeout
-      setTimeout(() => {
-        task.complete();
-      }, 1000);
-    });
-    // Step B: for entities whose Task 已完成且仍处于 Thinking（没有 Timer/Timeout），
-    //         我们转入 tip 状态并为它设置一个 Timer（ticks 表示等待时长）
-    this.startThinkingQuery.forEach([PlayerId], (entity, playerId) => {
-      this.world.set(entity, PlayerStatus, "tip");
-      const ticks = randomInt(30, 100);
-      this.world.set(entity, relation(Timer, Thinking), ticks);
-      this.platform.emitEvent("thinking:start", {
-        playerId,
-        content: `正在思考下一步行动... (${ticks} ticks)`,
-      });
+    this.query.forEach([], (entity) => {
+      this.world.set(entity, Behavior, { tree: SIMPLE_AI_TREE });
     });
-    // Step C: entities that hit Timeout（Timer 的超时条件）
-    // - 清理所有与 Thinking 相关的组件
-    // - 通知平台思考结束
-    // - 随机发起一个短期直走行为作为“思考后的行动”
-    this.timeoutQuery.forEach([PlayerId], (entity, playerId) => {
-      this.world.remove(entity, PlayerStatus);
-      this.world.remove(entity, Thinking);
-      this.world.remove(entity, relation(Task, Thinking));
-      this.world.remove(entity, relation(TaskCompleted, Thinking));
-      this.world.remove(entity, relation(Timeout, Thinking));
-      this.platform.emitEvent("thinking:end", {
-        playerId,
-      });
+    this.behaviors.run();
+  }
 
-      const newDirection = randomSelect([
-        Direction.Up,
-        Direction.Down,
-        Direction.Left,
-        Direction.Right,
-      ]);
+  private createTree(): behavior.BehaviorNode {
+    const { world, platform, random } = this;
+    const directions = this.map.directions;
+    return behavior.sequence(
+      // 只有“空闲”（没有移动/计划/寻路目标，也没有被钉在原地）的角色才开始思考
+      behavior.condition(({ entity }) =>
+        BUSY_COMPONENTS.every((component) => !world.has(entity, component)),
+      ),
+      behavior.action(({ entity }) => {
+        world.set(entity, PlayerStatus, "thinking");
+      }),
+      // 创建并等待一个 Task，代表 AI 正在处理决策
+      behavior.task(this.tasks, (task) => simulateThinking(task), {
+        timeout: THINKING_TIMEOUT_TICKS,
+      }),
+      // Task 完成后转入 tip 状态，思考耗时（ticks）记在黑板上供 wait 使用
+      behavior.action(({ entity, blackboard }) => {
+        const ticks = random.randomInt(30, 100);
+        blackboard.thinkingTicks = ticks;
+        world.set(entity, PlayerStatus, "tip");
+        platform.emitEvent("thinking:start", {
+          playerId: world.get(entity, PlayerId),
+          content: `正在思考下一步行动... (${ticks} ticks)`,
+        });
+      }),
+      behavior.wait(({ blackboard }) => blackboard.thinkingTicks as number),
+      behavior.action(({ entity }) => {
+        world.remove(entity, PlayerStatus);
+        platform.emitEvent("thinking:end", {
+          playerId: world.get(entity, PlayerId),
+        });
+      }),
       // 启动一个短暂的直走行为（remainingDistance 为随机数），作为思考后的动作
-      this.world.set(entity, StraightWalk, {
-        direction: newDirection,
-        remainingDistance: randomInt(5, 10),
-      });
-    });
+      behavior.walk(
+        () => random.randomSelect(directions),
+        () => random.randomInt(5, 10),
+      ),
+    );
   }
 }
 
-const decoder = new TextDecoder();
+// 启用的插件：fixed 用于把角色钉在指定位置，team 用于分队计分
+const fixedPlugin = plugins.fixed.create();
+const teamPlugin = plugins.team.create(
+  { name: "红队", color: "#e74c3c", base: 0, multiplier: 1 },
+  { name: "蓝队", color: "#3498db", base: 0, multiplier: 1 },
+);
+type PlayerInit = plugins.fixed.PluginInit | plugins.team.PluginInit;
+
+const SCRIPT_NAME = "简单AI演示 (虚假思考+随机行走+Task示例)";
+// 存档数据版本：组件结构发生不兼容的变化时递增，并注册对应的迁移函数
+const SAVE_VERSION = 1;
+
+// 思考任务的超时 tick 数，超时后 TaskManager 会停止任务，角色回到空闲状态
+const THINKING_TIMEOUT_TICKS = 300;
+
+// SimpleAIPass 注册的行为树名称（保存在 Behavior 组件中）
+const SIMPLE_AI_TREE = "simple-ai";
+// 角色具有这些组件时视为“忙碌”，不会开始新一轮思考
+const BUSY_COMPONENTS = [
+  Move,
+  StraightWalk,
+  PathPlan,
+  GoalPathfinding,
+  GoalArea,
+  Fixed,
+];
+
+/**
+ * 模拟异步思考（例如调用 LLM）：异步完成任务。
+ * 完成结果由 TaskManager 在下一帧的固定时机应用，思考耗时则由随后的 Timer（以 tick 计）模拟。
+ */
+function simulateThinking(task: TaskHandle) {
+  void Promise.resolve().then(() => task.complete());
+}
+
 const noopPlatform: ScriptPlatform = {
   emitEvent() {},
 };
@@ -219,12 +254,14 @@ function create({
   savedData,
   structure,
   platform,
-}: ScriptInitOptions<void>) {
+  seed,
+}: ScriptInitOptions<void>): EcsWorkerApi<PlayerInit> {
   // create: 入口函数，用于根据给定的初始化选项构建并返回一个可供 Worker 或 UI 使用的 runtime API
   // 参数说明：
   // - savedData: 如果提供表示这是从持久化的世界快照恢复
   // - structure: 地图、区域和入口点等地图结构定义
   // - platform: 平台接口（用于发送事件）
+  // - seed: 随机数种子，用于复现同一次运行
   const safePlatform = platform ?? noopPlatform;
   const geometry = new GridGeometry(structure.width, structure.height);
   const map = new GridMap(
@@ -232,40 +269,94 @@ function create({
     structure.tiles,
     structure.portals.map(transformPortalData(geometry)),
     structure.areas.map(transformAreaData(geometry)),
+    {
+      diagonal: structure.diagonal,
+      palette: structure.palette?.map(transformTileDefinition),
+    },
   );
-  const world = new World(
-    savedData ? JSON.parse(decoder.decode(savedData)) : undefined,
-  );
-  // world: ECS 实例。可以选择传入 JSON 来恢复之前的状态，便于快速重放或持久化
+  // saveFormat: 带版本和指纹的存档格式，防止存档被加载到其他地图上
+  const saveFormat = new SaveFormat(
+    SAVE_VERSION,
+    computeSaveFingerprint(SCRIPT_NAME, structure),
+  )
+    // 旧版存档（未分帧的 JSON）与版本 1 的世界快照结构相同，直接沿用
+    .registerMigration(0, (snapshot) => snapshot);
+  const world = new World(savedData ? saveFormat.decode(savedData) : undefined);
+  // world: ECS 实例。可以选择传入存档来恢复之前的状态，便于快速重放或持久化
+  // mapPass: 恢复并保存运行时对地图的修改（开门、建墙等），需要在其他使用地图的 pass 之前创建
+  const mapPass = new MapPass(world, map);
+  // random: 所有 pass 共享的随机数生成器，状态由 RandomPass 随世界保存
+  const random = new Random(seed ?? Math.floor(Math.random() * 0x100000000));
+  const randomPass = new RandomPass(world, random);
+  // clock: 世界时钟（tick → 游戏内时间），经过的 tick 数由 ClockPass 随世界保存
+  const clock = new WorldClock();
+  const teams = new TeamPass(world, teamPlugin);
+  const ai = new SimpleAIPass(world, map, safePlatform, random);
   const pipeline = createPipeline()
     // pipeline: 按照顺序向 world 添加各种 pass，确保状态按期望方式更新
+    // 0) ClockPass: 推进世界时钟，其余 pass 看到的都是本帧的时间
+    .addPass(new ClockPass(world, clock))
     // 1) PendingPass: 处理任何排队或延迟执行的任务（例如计划的能力）
     .addPass(new PendingPass(world))
     // 2) TimerPass: 更新系统内部计时器，供 AI、制裁器等使用
     .addPass(new TimerPass(world))
+    // 2b) TaskManager: 在固定时机应用异步任务的完成结果，并推进任务超时
+    .addPass(ai.tasks)
     // 3) Collision: 首先运行碰撞检测以保证在移动之前处理碰撞逻辑
     .addPass(new DynamicColliderPass(world, map))
     // 4) Movement/Path-Finding: 更新移动相关的实体位置与路径计算
     .addPass(new MovementPass(world, geometry))
     .addPass(new PathFindingPass(world, map))
+    // 4b) MovementEventPass: 把到达/放弃寻路目标的结果通知平台
+    .addPass(new MovementEventPass(world, geometry, safePlatform))
     .addPass(new PlanExecutionPass(world, map))
     // 5) StraightWalkPass: 专用于直线移动行为的处理
     .addPass(new StraightWalkPass(world, map))
+    // 5b) PerceptionPass: 重建空间索引，更新具有 Perception 的角色感知到的实体
+    .addPass(new PerceptionPass(world, map))
     // 6) Gameplay/demo passes: 初始化玩家与 AI 行为（依赖以上基础系统）
-    .addPass(new InitPlayerPass(world, structure.spawnPoints))
-    .addPass(new SimpleAIPass(world, safePlatform))
-    // 7) Finally, sync ECS changes
+    .addPass(
+      new InitPlayerPass(world, random, structure.spawnPoints, map.directions),
+    )
+    .addPass(ai)
+    // 6b) SchedulePass: 按日程（Schedule）在指定时间让角色前往区域
+    .addPass(new SchedulePass(world, clock))
+    // 7) TeamPass: 统计队伍成员并累计队伍得分
+    .addPass(teams)
+    // 7b) AreaTrackingPass: 追踪角色所在的区域，发出进入/离开区域事件
+    .addPass(new AreaTrackingPass(world, map, safePlatform))
+    // 7c) ConversationPass: 驱动对话（等待参与者就位、轮流发言），发出 conversation:* 事件
+    .addPass(new ConversationPass(world, safePlatform, console.warn))
+    // 7d) MemoryPass: 把角色看到的角色、听到的对话记入 Memory
+    .addPass(new MemoryPass(world, clock))
+    // 8) RandomPass / MapPass: 保存本帧结束时的随机数状态和地图修改
+    .addPass(randomPass)
+    .addPass(mapPass)
+    // 9) Finally, sync ECS changes
     .addPass(() => world.sync())
     .build();
-  const api = new EcsWorkerApi(world, pipeline);
+  // playerPlugins: 每个插件负责把 PlayerInit 中对应的字段映射为组件
+  // - fixed: 校验并把角色钉在指定的格子和朝向上
+  // - team: 校验队伍 ID 并把角色加入队伍
+  const playerPlugins = new PlayerInitRegistry()
+    .register(createFixedPlugin(world, map))
+    .register(createTeamPlugin(world, teamPlugin));
+  const api = new EcsWorkerApi<PlayerInit>(world, pipeline, {
+    plugins: playerPlugins,
+    teams,
+    commands: new CommandQueue(world, map, console.warn),
+    saveFormat,
+  });
   return api;
 }
 
 // 使用 defineScriptEntrypoint 将此 demo 注册为一个可在运行时加载的脚本
-// 第一个参数是用户可见的脚本名，第二个参数为脚本描述，create 函数用于创建运行时 api
+// 第一个参数是用户可见的脚本名，第二个参数为脚本描述，其余参数为启用的插件，create 函数用于创建运行时 api
 export default defineScriptEntrypoint(
-  "简单AI演示 (虚假思考+随机行走+Task示例)",
+  SCRIPT_NAME,
   "演示具有简单随机AI行为的多个角色在地图中移动。",
+  fixedPlugin,
+  teamPlugin,
 )(create);
 
 function transformAreaData(
@@ -280,6 +371,30 @@ function transformAreaData(
   });
 }
 
+const DIRECTION_NAMES: Record<MapDirectionName, Direction> = {
+  up: Direction.Up,
+  down: Direction.Down,
+  left: Direction.Left,
+  right: Direction.Right,
+  "up-left": Direction.UpLeft,
+  "up-right": Direction.UpRight,
+  "down-left": Direction.DownLeft,
+  "down-right": Direction.DownRight,
+};
+
+function transformTileDefinition(tile: MapTileDefinition): TileDefinition {
+  // 将调色板中的方向名称映射为 Direction 枚举，其余字段原样保留
+  return {
+    id: tile.id,
+    name: tile.name,
+    cost: tile.cost,
+    passable: tile.passable,
+    entryDirections: tile.entry?.map((name) => DIRECTION_NAMES[name]),
+    tags: tile.tags,
+    teams: tile.teams,
+  };
+}
+
 function transformPortalData(
   geometry: GridGeometry,
 ): (portal: MapStructure["portals"][number]) => Portal {